@@ -1,14 +1,112 @@
 #!/usr/bin/env node
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs/promises';
+import path from 'node:path';
 import { Command } from 'commander';
+import { loadConfig, mergeRunConfig, resolveRunConfig, RunConfig } from '../config/config';
 import { loadOpenApiSpec, extractRoutes } from '../openapi/parser';
-import { loadScenarios } from '../scenarios/loader';
+import { ApiRoute } from '../openapi/types';
+import { loadScenarios, validateScenarios } from '../scenarios/loader';
+import { lintScenariosAgainstSpec } from '../scenarios/spec-lint';
+import { attachFileLocations, formatValidationErrors, ValidationError } from '../scenarios/validation';
 import { startServer } from '../server/server';
+import { ScenarioRegistry, ScenarioSet } from '../state/scenario-registry';
 import { ScenarioState } from '../state/scenario-state';
 import { startScenarioUI } from '../ui/scenario-ui';
-import { createEventLogger, createNullEventLogger, LogMode } from '../logging/event-logger';
+import { createProxyRecorder } from '../recording/recorder';
+import { scaffoldScenarios } from '../scaffold/init';
+import { inferCollections } from '../resources/collections';
+import { loadSeedData } from '../resources/seed';
+import { AUTO_GEN_PREFIX, isAutoGenScenario, listAutoGenScenarios } from '../responses/auto-gen';
+import { createReloader, ReloadOutcome } from '../watch/reloader';
+import { watchFiles } from '../watch/watcher';
+import { createEventLogger, createNullEventLogger, EventLogger, LogMode } from '../logging/event-logger';
+import {
+  formatValidationReport,
+  isReportFormat,
+  REPORT_FORMATS,
+  ReportFormat,
+} from '../reports/validation-report';
 
 const program = new Command();
 
+const resolveReportFormat = (format: string): ReportFormat => {
+  if (!isReportFormat(format)) {
+    throw new Error(`Unknown report format "${format}" (expected ${REPORT_FORMATS.join(', ')})`);
+  }
+  return format;
+};
+
+const writeReport = async (
+  report: { files: string[]; errors: ValidationError[] },
+  format: ReportFormat,
+  outputFile?: string
+): Promise<void> => {
+  const output = formatValidationReport(report, format);
+
+  if (outputFile) {
+    await fs.writeFile(outputFile, `${output}\n`, 'utf-8');
+  } else {
+    process.stdout.write(`${output}\n`);
+  }
+
+  if (report.errors.some((entry) => entry.severity === 'error')) {
+    process.exitCode = 1;
+  }
+};
+
+const toLintIssues = (errors: ValidationError[]) => {
+  return errors.map((error) => ({
+    file: error.file,
+    path: error.path,
+    message: error.message,
+    severity: error.severity,
+    code: error.code,
+    ruleId: error.ruleId,
+    line: error.line,
+    column: error.column,
+  }));
+};
+
+type ScenarioSetOptions = {
+  specPath?: string;
+  sourceDir?: string;
+  proxy: boolean;
+  eventLogger: EventLogger;
+};
+
+// Load (or reuse) the routes and the scenarios, then lint them against each other.
+// Startup and watch-mode reloads share this so both apply the same checks.
+const loadScenarioSet = async (
+  options: ScenarioSetOptions,
+  currentRoutes?: ApiRoute[]
+): Promise<ScenarioSet> => {
+  const spec = !currentRoutes && options.specPath ? await loadOpenApiSpec(options.specPath) : undefined;
+  const routes = currentRoutes ?? (spec ? extractRoutes(spec) : []);
+  const scenarios = await loadScenarios(options.sourceDir, options.eventLogger);
+
+  if (options.specPath && scenarios.length > 0) {
+    const lintErrors = await lintScenariosAgainstSpec(scenarios, routes, {
+      proxy: options.proxy,
+    });
+    await attachFileLocations(lintErrors);
+    const lintFailures = lintErrors.filter((entry) => entry.severity === 'error');
+
+    options.eventLogger.emitEvent({
+      event: 'spec-lint',
+      errors: lintFailures.length,
+      warnings: lintErrors.length - lintFailures.length,
+      issues: toLintIssues(lintErrors),
+    });
+
+    if (lintFailures.length > 0) {
+      throw new Error(formatValidationErrors(lintFailures));
+    }
+  }
+
+  return { routes, scenarios };
+};
+
 program
   .name('mock-hub')
   .description('Integration Mock Hub - OpenAPI-driven mock server')
@@ -24,40 +122,147 @@ program
   .option('--logging', 'Emit deterministic logs', false)
   .option('--port <number>', 'Server port', '4010')
   .option('--proxy <baseUrl>', 'Proxy base URL for unmatched requests')
+  .option('--record <dir>', 'Record proxied exchanges as a scenario in this directory (requires --proxy)')
+  .option('--record-scenario <name>', 'Scenario name used for new recordings', 'Recorded')
+  .option('--watch', 'Reload scenarios (and the spec) when their files change', false)
+  .option('--validate-requests', 'Reject requests that do not match their OpenAPI operation', false)
+  .option('--request-validation-status <code>', 'Status for invalid requests (400 or 422)', '400')
+  .option('--validate-responses [mode]', 'Check responses against the OpenAPI operation: warn (default) or fail')
+  .option('--stateful', 'Emulate the spec collections in memory (POST stores, GET returns, PUT/PATCH/DELETE change)', false)
+  .option('--seed <file>', 'Initial collection items for --stateful (YAML or JSON)')
+  .option('--config <path>', 'Config file (default: mockhub.config.{yaml,yml,json,ts} in the working directory)')
+  .option('--profile <name>', 'Named profile from the config file')
   .addHelpText(
     'after',
-    `\nExamples:\n  mock-hub run --spec ./openapi.yaml\n  mock-hub run --spec ./openapi.yaml --source ./scenarios\n  mock-hub run --spec ./openapi.yaml --source ./scenarios --scenario PartnerDown\n  mock-hub run --spec ./openapi.yaml --source ./scenarios --ui\n`
+    `\nExamples:\n  mock-hub run --profile ci\n  mock-hub run --spec ./openapi.yaml\n  mock-hub run --spec ./openapi.yaml --source ./scenarios\n  mock-hub run --spec ./openapi.yaml --source ./scenarios --watch\n  mock-hub run --spec ./openapi.yaml --stateful --seed ./seed.yaml\n  mock-hub run --spec ./openapi.yaml --source ./scenarios --scenario PartnerDown\n  mock-hub run --spec ./openapi.yaml --source ./scenarios --ui\n  mock-hub run --proxy https://staging.example.com --record ./scenarios/recorded\n`
   )
   .action(
-    async (options: {
-      spec?: string;
-      source?: string;
-      scenario?: string;
-      ui?: boolean;
-      showLog?: boolean;
-      logging?: boolean;
-      port?: string;
-      proxy?: string;
-    }) => {
+    async (
+      flags: {
+        spec?: string;
+        source?: string;
+        scenario?: string;
+        ui?: boolean;
+        showLog?: boolean;
+        logging?: boolean;
+        port?: string;
+        proxy?: string;
+        record?: string;
+        recordScenario?: string;
+        watch?: boolean;
+        validateRequests?: boolean;
+        requestValidationStatus?: string;
+        validateResponses?: boolean | string;
+        stateful?: boolean;
+        seed?: string;
+        config?: string;
+        profile?: string;
+      },
+      command: Command
+    ) => {
+    const {
+      config: configPath,
+      profile,
+      showLog,
+      port: portFlag,
+      requestValidationStatus: validationStatusFlag,
+      validateResponses: validateResponsesFlag,
+      ...runFlags
+    } = flags;
+    let options: RunConfig = {
+      ...runFlags,
+      port: portFlag === undefined ? undefined : Number(portFlag),
+      requestValidationStatus: validationStatusFlag === undefined ? undefined : Number(validationStatusFlag),
+      validateResponses: validateResponsesFlag as RunConfig['validateResponses'],
+    };
+    let configFile: string | undefined;
+    let configError: unknown;
+
+    // Config problems are reported through the event logger, which itself depends on the config.
+    try {
+      const loaded = await loadConfig(configPath);
+      if (profile && !loaded) {
+        throw new Error(`--profile "${profile}" requires a config file`);
+      }
+      if (loaded) {
+        configFile = loaded.filePath;
+        options = mergeRunConfig(
+          resolveRunConfig(loaded, profile),
+          options,
+          (key) => command.getOptionValueSource(key) === 'cli'
+        );
+      }
+    } catch (error) {
+      configError = error;
+    }
+
     const port = Number(options.port);
     const mode: LogMode = options.ui ? 'ui' : process.env.CI ? 'ci' : 'cli';
     const proxyBaseUrl = options.proxy?.trim() || undefined;
     const specPath = options.spec?.trim() || undefined;
     // Resolve run mode before loading any files. Spec is optional only in proxy mode.
     const runMode = proxyBaseUrl ? 'proxy' : 'mock';
-    const shouldLog = Boolean(options.showLog || options.logging);
+    const shouldLog = Boolean(showLog || options.logging);
     const eventLogger = shouldLog
       ? createEventLogger({ mode, format: mode === 'ci' ? 'jsonl' : 'pretty' })
       : createNullEventLogger();
 
     try {
+      if (configError) {
+        throw configError;
+      }
+
       if (runMode === 'mock' && !specPath) {
         throw new Error('OpenAPI spec is required when not using --proxy');
       }
 
-      const spec = specPath ? await loadOpenApiSpec(specPath) : undefined;
-      const routes = spec ? extractRoutes(spec) : [];
-      const scenarios = await loadScenarios(options.source, eventLogger);
+      if (options.record && runMode !== 'proxy') {
+        throw new Error('--record requires --proxy');
+      }
+
+      const requestValidationStatus = options.requestValidationStatus ?? 400;
+      if (requestValidationStatus !== 400 && requestValidationStatus !== 422) {
+        throw new Error('--request-validation-status must be 400 or 422');
+      }
+
+      if (options.validateRequests && !specPath) {
+        throw new Error('--validate-requests requires --spec');
+      }
+
+      const validateResponses = options.validateResponses === true ? 'warn' : options.validateResponses || undefined;
+      if (validateResponses && validateResponses !== 'warn' && validateResponses !== 'fail') {
+        throw new Error('--validate-responses must be warn or fail');
+      }
+
+      if (validateResponses && !specPath) {
+        throw new Error('--validate-responses requires --spec');
+      }
+
+      if (options.stateful && !specPath) {
+        throw new Error('--stateful requires --spec');
+      }
+
+      if (options.seed && !options.stateful) {
+        throw new Error('--seed requires --stateful');
+      }
+
+      if (options.scenario?.startsWith(AUTO_GEN_PREFIX) && !isAutoGenScenario(options.scenario)) {
+        throw new Error(`--scenario "${options.scenario}" must be auto-gen-<status> with a status from 100 to 599`);
+      }
+
+      if (options.watch && !specPath && !options.source) {
+        throw new Error('--watch requires --spec or --source');
+      }
+
+      const setOptions: ScenarioSetOptions = {
+        specPath,
+        sourceDir: options.source,
+        proxy: runMode === 'proxy',
+        eventLogger,
+      };
+      const { routes, scenarios } = await loadScenarioSet(setOptions);
+      const registry = new ScenarioRegistry({ routes, scenarios });
+      const seed = options.seed ? await loadSeedData(options.seed, inferCollections(routes)) : undefined;
 
       eventLogger.emitEvent({
         event: 'startup',
@@ -67,19 +272,60 @@ program
         ui: Boolean(options.ui),
         port,
         proxyBaseUrl,
+        config: configFile,
+        profile,
       });
 
       const scenarioState = new ScenarioState();
       scenarioState.set(options.scenario);
 
+      const reloads = new EventEmitter();
+      const resolvedSpec = specPath ? path.resolve(specPath) : undefined;
+      const reloader = createReloader({
+        registry,
+        load: (reloadSpec) => loadScenarioSet(setOptions, reloadSpec ? undefined : registry.routes),
+        isSpecFile: (file) => file === resolvedSpec,
+        eventLogger,
+        onReload: (outcome) => reloads.emit('reload', outcome),
+      });
+
       if (options.ui) {
         startScenarioUI(
           scenarios.map((scenario) => scenario.scenario),
           scenarioState.get(),
-          (next) => scenarioState.set(next)
+          (next) => scenarioState.set(next),
+          (listener) => {
+            const forwardReload = (outcome: ReloadOutcome) =>
+              listener({
+                scenarios: outcome.result === 'applied' ? outcome.scenarios : undefined,
+                autoGen: outcome.result === 'applied' ? listAutoGenScenarios(registry.routes) : undefined,
+                reload: {
+                  result: outcome.result,
+                  message: outcome.result === 'failed' ? outcome.message : undefined,
+                },
+              });
+            // The admin API can switch scenarios too; keep the selector in sync.
+            const forwardActive = (active?: string) => listener({ active: active ?? null });
+            reloads.on('reload', forwardReload);
+            scenarioState.on('change', forwardActive);
+            return () => {
+              reloads.off('reload', forwardReload);
+              scenarioState.off('change', forwardActive);
+            };
+          },
+          listAutoGenScenarios(routes)
         );
       }
 
+      const recorder = options.record
+        ? await createProxyRecorder({
+            outputDir: options.record,
+            scenarioName: options.recordScenario,
+            proxyBaseUrl,
+            eventLogger,
+          })
+        : undefined;
+
       await startServer({
         routes,
         scenarios,
@@ -87,7 +333,24 @@ program
         port,
         eventLogger,
         proxyBaseUrl,
+        recorder,
+        registry,
+        validateRequests: Boolean(options.validateRequests),
+        requestValidationStatus,
+        validateResponses,
+        autoGenProblem: options.autoGenProblem,
+        stateful: Boolean(options.stateful),
+        seed,
+        // A manual reload re-reads the spec as well as the scenarios.
+        reload: () => reloader.reload(resolvedSpec ? [resolvedSpec] : []),
       });
+
+      if (options.watch) {
+        watchFiles({
+          paths: [resolvedSpec, options.source].filter((entry): entry is string => Boolean(entry)),
+          onChange: (files) => void reloader.reload(files),
+        });
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown startup error';
       eventLogger.emitEvent({
@@ -99,4 +362,118 @@ program
     }
   );
 
+program
+  .command('validate')
+  .description('Validate scenario files without starting the server')
+  .option('--source <dir>', 'Directory containing .yaml scenario files')
+  .option('--format <format>', `Report format (${REPORT_FORMATS.join('|')})`, 'text')
+  .option('--output <file>', 'Write the report to a file instead of stdout')
+  .addHelpText(
+    'after',
+    `\nExamples:\n  mock-hub validate --source ./scenarios\n  mock-hub validate --source ./scenarios --format sarif --output mock-hub.sarif\n  mock-hub validate --source ./scenarios --format junit --output mock-hub.junit.xml\n`
+  )
+  .action(async (options: { source?: string; format: string; output?: string }) => {
+    try {
+      if (!options.source) {
+        throw new Error('--source is required for validate');
+      }
+
+      const format = resolveReportFormat(options.format);
+      const report = await validateScenarios(options.source);
+      await writeReport({ files: report.files, errors: report.errors }, format, options.output);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown validation error';
+      process.stderr.write(`✖ ${message}\n`);
+      process.exitCode = 2;
+    }
+  });
+
+program
+  .command('lint')
+  .description('Validate scenario files and check their rules against the OpenAPI spec')
+  .option('--spec <path>', 'Path to OpenAPI spec (json/yaml)')
+  .option('--source <dir>', 'Directory containing .yaml scenario files')
+  .option('--proxy', 'Report rules outside the spec as warnings (they are proxied at runtime)', false)
+  .option('--format <format>', `Report format (${REPORT_FORMATS.join('|')})`, 'text')
+  .option('--output <file>', 'Write the report to a file instead of stdout')
+  .addHelpText(
+    'after',
+    `\nExamples:\n  mock-hub lint --spec ./openapi.yaml --source ./scenarios\n  mock-hub lint --spec ./openapi.yaml --source ./scenarios --format sarif --output mock-hub.sarif\n`
+  )
+  .action(
+    async (options: {
+      spec?: string;
+      source?: string;
+      proxy?: boolean;
+      format: string;
+      output?: string;
+    }) => {
+      try {
+        if (!options.spec) {
+          throw new Error('--spec is required for lint');
+        }
+
+        if (!options.source) {
+          throw new Error('--source is required for lint');
+        }
+
+        const format = resolveReportFormat(options.format);
+        const spec = await loadOpenApiSpec(options.spec);
+        const routes = extractRoutes(spec);
+        const report = await validateScenarios(options.source);
+        const lintErrors = await lintScenariosAgainstSpec(report.scenarios, routes, {
+          proxy: Boolean(options.proxy),
+        });
+        await attachFileLocations(lintErrors);
+
+        await writeReport(
+          { files: report.files, errors: [...report.errors, ...lintErrors] },
+          format,
+          options.output
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown lint error';
+        process.stderr.write(`✖ ${message}\n`);
+        process.exitCode = 2;
+      }
+    }
+  );
+
+program
+  .command('init')
+  .description('Generate starter scenarios for every declared non-2xx status in the spec')
+  .option('--spec <path>', 'Path to OpenAPI spec (json/yaml)')
+  .option('--out <dir>', 'Directory to write the generated scenarios to', './mocks')
+  .option('--force', 'Write into a non-empty output directory', false)
+  .addHelpText(
+    'after',
+    `\nExamples:\n  mock-hub init --spec ./openapi.yaml\n  mock-hub init --spec ./openapi.yaml --out ./mocks --force\n`
+  )
+  .action(async (options: { spec?: string; out: string; force?: boolean }) => {
+    try {
+      if (!options.spec) {
+        throw new Error('--spec is required for init');
+      }
+
+      const spec = await loadOpenApiSpec(options.spec);
+      const result = await scaffoldScenarios({
+        routes: extractRoutes(spec),
+        outputDir: options.out,
+        specPath: options.spec,
+        force: Boolean(options.force),
+      });
+
+      const lines = result.scenarios.map(
+        (entry) => ` ○ ${entry.scenario} (${entry.rules} rule${entry.rules === 1 ? '' : 's'}) → ${entry.file}`
+      );
+      process.stdout.write(
+        [`✔ Generated ${result.scenarios.length} scenario(s) in ${options.out}`, ...lines].join('\n') + '\n'
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown init error';
+      process.stderr.write(`✖ ${message}\n`);
+      process.exitCode = 1;
+    }
+  });
+
 program.parseAsync(process.argv);
@@ -0,0 +1,266 @@
+import { existsSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseDocument } from 'yaml';
+import type { ProblemTemplate } from '../responses/auto-gen';
+import { attachFileLocations, formatValidationErrors, ValidationError } from '../scenarios/validation';
+
+/** Options accepted by `mock-hub run`, either at the root of the config file or inside a profile. */
+export type RunConfig = {
+  spec?: string;
+  source?: string;
+  scenario?: string;
+  port?: number;
+  proxy?: string;
+  logging?: boolean;
+  ui?: boolean;
+  record?: string;
+  recordScenario?: string;
+  watch?: boolean;
+  validateRequests?: boolean;
+  requestValidationStatus?: number;
+  /** `true` is the same as 'warn'. */
+  validateResponses?: boolean | 'warn' | 'fail';
+  /** Body for undeclared `auto-gen-NNN` statuses; false sends none. */
+  autoGenProblem?: ProblemTemplate | false;
+  stateful?: boolean;
+  /** Seed data file (YAML or JSON) for stateful mode. */
+  seed?: string;
+};
+
+export type MockHubConfig = RunConfig & {
+  profiles?: Record<string, RunConfig>;
+};
+
+export type LoadedConfig = {
+  filePath: string;
+  config: MockHubConfig;
+};
+
+export const CONFIG_FILE_NAMES = [
+  'mockhub.config.yaml',
+  'mockhub.config.yml',
+  'mockhub.config.json',
+  'mockhub.config.ts',
+];
+
+const STRING_KEYS = new Set(['spec', 'source', 'scenario', 'proxy', 'record', 'recordScenario', 'seed']);
+const BOOLEAN_KEYS = new Set(['logging', 'ui', 'watch', 'validateRequests', 'stateful']);
+const RUN_KEYS = new Set([...STRING_KEYS, ...BOOLEAN_KEYS, 'port', 'requestValidationStatus', 'validateResponses', 'autoGenProblem']);
+// Paths in a config file are relative to the file, not to the directory mock-hub runs in.
+const PATH_KEYS = ['spec', 'source', 'record', 'seed'] as const;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Identity helper that gives `mockhub.config.ts` files type checking.
+ */
+export const defineConfig = (config: MockHubConfig): MockHubConfig => config;
+
+export const findConfigFile = (cwd: string = process.cwd()): string | undefined => {
+  return CONFIG_FILE_NAMES.map((name) => path.join(cwd, name)).find((filePath) => existsSync(filePath));
+};
+
+const validateRunConfig = (
+  value: Record<string, unknown>,
+  filePath: string,
+  prefix: string,
+  errors: ValidationError[]
+): void => {
+  const push = (key: string, message: string): void => {
+    errors.push({ file: filePath, path: `${prefix}${key}`, message, severity: 'error' });
+  };
+
+  for (const [key, entry] of Object.entries(value)) {
+    if (!RUN_KEYS.has(key)) {
+      push(key, `Unknown config key "${key}"`);
+      continue;
+    }
+
+    if (STRING_KEYS.has(key) && (typeof entry !== 'string' || entry.trim() === '')) {
+      push(key, `"${key}" must be a non-empty string`);
+      continue;
+    }
+
+    if (BOOLEAN_KEYS.has(key) && typeof entry !== 'boolean') {
+      push(key, `"${key}" must be a boolean`);
+      continue;
+    }
+
+    if (key === 'port' && (!Number.isInteger(entry) || (entry as number) < 0 || (entry as number) > 65535)) {
+      push(key, '"port" must be an integer between 0 and 65535');
+      continue;
+    }
+
+    if (key === 'requestValidationStatus' && entry !== 400 && entry !== 422) {
+      push(key, '"requestValidationStatus" must be 400 or 422');
+      continue;
+    }
+
+    if (key === 'validateResponses' && typeof entry !== 'boolean' && entry !== 'warn' && entry !== 'fail') {
+      push(key, '"validateResponses" must be a boolean, "warn" or "fail"');
+      continue;
+    }
+
+    if (key === 'autoGenProblem' && entry !== false && !isPlainObject(entry)) {
+      push(key, '"autoGenProblem" must be an object or false');
+      continue;
+    }
+
+    if (key === 'proxy' && !/^https?:\/\//.test(entry as string)) {
+      push(key, '"proxy" must be an http(s) URL');
+    }
+  }
+};
+
+export const validateConfig = (value: unknown, filePath: string): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!isPlainObject(value)) {
+    errors.push({ file: filePath, path: '', message: 'Config must be an object', severity: 'error' });
+    return errors;
+  }
+
+  const { profiles, ...root } = value;
+  validateRunConfig(root, filePath, '', errors);
+
+  if (profiles === undefined) return errors;
+
+  if (!isPlainObject(profiles)) {
+    errors.push({ file: filePath, path: 'profiles', message: '"profiles" must be an object', severity: 'error' });
+    return errors;
+  }
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    if (!isPlainObject(profile)) {
+      errors.push({
+        file: filePath,
+        path: `profiles.${name}`,
+        message: `Profile "${name}" must be an object`,
+        severity: 'error',
+      });
+      continue;
+    }
+    validateRunConfig(profile, filePath, `profiles.${name}.`, errors);
+  }
+
+  return errors;
+};
+
+const importTypeScriptConfig = async (filePath: string): Promise<unknown> => {
+  let tsImport: (specifier: string, parentURL: string) => Promise<{ default?: unknown }>;
+  try {
+    ({ tsImport } = await import('tsx/esm/api'));
+  } catch {
+    throw new Error(`Loading ${path.basename(filePath)} requires the "tsx" package (npm install -D tsx)`);
+  }
+
+  const module = await tsImport(pathToFileURL(filePath).href, import.meta.url);
+  // Outside an ESM package the file is loaded as CommonJS and the export is nested once more.
+  const exported = module.default;
+  return isPlainObject(exported) && isPlainObject(exported.default) && Object.keys(exported).length === 1
+    ? exported.default
+    : exported;
+};
+
+const readConfigValue = async (filePath: string): Promise<unknown> => {
+  if (filePath.endsWith('.ts')) {
+    return importTypeScriptConfig(filePath);
+  }
+
+  const content = await fs.readFile(filePath, 'utf-8');
+  if (filePath.endsWith('.json')) {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  const doc = parseDocument(content, { prettyErrors: true, uniqueKeys: true });
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid YAML in ${filePath}: ${doc.errors[0].message}`);
+  }
+  return doc.toJS({ maxAliasCount: 0 }) ?? {};
+};
+
+/**
+ * Load and validate a config file. Without an explicit path the working directory is
+ * searched for one of CONFIG_FILE_NAMES; no file found means no config.
+ */
+export const loadConfig = async (
+  explicitPath?: string,
+  cwd: string = process.cwd()
+): Promise<LoadedConfig | undefined> => {
+  const filePath = explicitPath ? path.resolve(cwd, explicitPath) : findConfigFile(cwd);
+  if (!filePath) return undefined;
+
+  if (explicitPath && !existsSync(filePath)) {
+    throw new Error(`Config file not found: ${filePath}`);
+  }
+
+  const value = await readConfigValue(filePath);
+  const errors = validateConfig(value, filePath);
+
+  if (errors.length > 0) {
+    if (!filePath.endsWith('.ts')) {
+      await attachFileLocations(errors);
+    }
+    throw new Error(formatValidationErrors(errors));
+  }
+
+  return { filePath, config: value as MockHubConfig };
+};
+
+/**
+ * Flatten the root options and the selected profile into one run config, with
+ * paths resolved against the config file's directory.
+ */
+export const resolveRunConfig = (loaded: LoadedConfig, profile?: string): RunConfig => {
+  const { profiles, ...root } = loaded.config;
+  let selected: RunConfig = {};
+
+  if (profile) {
+    const available = Object.keys(profiles ?? {});
+    if (!profiles || !Object.prototype.hasOwnProperty.call(profiles, profile)) {
+      const hint = available.length > 0 ? ` (available: ${available.join(', ')})` : ' (no profiles defined)';
+      throw new Error(`Unknown profile "${profile}" in ${loaded.filePath}${hint}`);
+    }
+    selected = profiles[profile];
+  }
+
+  const merged: RunConfig = { ...root, ...selected };
+  const baseDir = path.dirname(loaded.filePath);
+
+  for (const key of PATH_KEYS) {
+    const value = merged[key];
+    if (value !== undefined) {
+      merged[key] = path.resolve(baseDir, value);
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Combine file values with command-line flags. A flag wins only when it was passed
+ * explicitly; otherwise the file value replaces the flag's default.
+ */
+export const mergeRunConfig = (
+  fileConfig: RunConfig,
+  flags: RunConfig,
+  isExplicit: (key: keyof RunConfig) => boolean
+): RunConfig => {
+  const merged: RunConfig = { ...flags };
+
+  for (const key of Object.keys(fileConfig) as Array<keyof RunConfig>) {
+    if (!isExplicit(key) && fileConfig[key] !== undefined) {
+      (merged as Record<string, unknown>)[key] = fileConfig[key];
+    }
+  }
+
+  return merged;
+};
@@ -2,5 +2,24 @@ export { loadOpenApiSpec, extractRoutes } from './openapi/parser';
 export { loadScenarios } from './scenarios/loader';
 export { createServer, startServer } from './server/server';
 export { ScenarioState } from './state/scenario-state';
+export { defineConfig } from './config/config';
+export { createRequestJournal } from './journal/journal';
 export type { ApiRoute, ApiSpec } from './openapi/types';
-export type { ScenarioFile, ScenarioRule, ScenarioMatch, ScenarioRespond } from './scenarios/types';
+export type {
+  ScenarioFile,
+  ScenarioRule,
+  ScenarioMatch,
+  ScenarioRespond,
+  ScenarioDataResponse,
+  ScenarioTimeout,
+  TimeoutMode,
+  SequenceMode,
+} from './scenarios/types';
+export type { MockHubConfig, RunConfig } from './config/config';
+export type {
+  JournalEntry,
+  JournalFilter,
+  RequestJournal,
+  VerificationExpectation,
+  VerificationResult,
+} from './journal/journal';
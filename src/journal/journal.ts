@@ -0,0 +1,154 @@
+import { matchesPath } from '../rules/matcher';
+
+export const JOURNAL_SOURCES = [
+  'scenario',
+  'proxy',
+  'proxy-error',
+  'timeout',
+  'auto-gen',
+  'auto-gen-problem',
+  'happy-path',
+  'stateful',
+  'stateful-error',
+  'validation',
+  'not-acceptable',
+  'not-found',
+] as const;
+
+export type JournalSource = (typeof JOURNAL_SOURCES)[number];
+
+export type JournalEntry = {
+  /** Increases by one per recorded request, also across `clear`. */
+  id: number;
+  timestamp: string;
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+  scenario?: string;
+  ruleId?: string;
+  ruleIndex?: number;
+  source: JournalSource;
+  /** 0 when the connection was left open or closed without an answer. */
+  status: number;
+  durationMs: number;
+};
+
+export type JournalFilter = {
+  method?: string;
+  /** Rule path syntax, so wildcards work as in `match.path`. */
+  path?: string;
+  ruleId?: string;
+  scenario?: string;
+  status?: number;
+  source?: JournalSource;
+};
+
+export type VerificationExpectation = JournalFilter & {
+  count?: number;
+  atLeast?: number;
+  atMost?: number;
+};
+
+export type VerificationMismatch = {
+  expectation: VerificationExpectation;
+  actual: number;
+  message: string;
+};
+
+export type VerificationResult = {
+  ok: boolean;
+  mismatches: VerificationMismatch[];
+};
+
+export type RequestJournal = {
+  record: (entry: Omit<JournalEntry, 'id'>) => void;
+  find: (filter?: JournalFilter) => JournalEntry[];
+  count: (filter?: JournalFilter) => number;
+  clear: () => void;
+  verify: (expectations: VerificationExpectation[]) => VerificationResult;
+};
+
+export type RequestJournalOptions = {
+  /** Oldest entries are dropped beyond this many; defaults to DEFAULT_JOURNAL_LIMIT. */
+  limit?: number;
+};
+
+export const DEFAULT_JOURNAL_LIMIT = 1000;
+
+const FILTER_KEYS: Array<keyof JournalFilter> = ['method', 'path', 'ruleId', 'scenario', 'status', 'source'];
+
+const matchesFilter = (entry: JournalEntry, filter: JournalFilter): boolean => {
+  if (filter.method && entry.method.toUpperCase() !== filter.method.toUpperCase()) return false;
+  if (filter.path && !matchesPath(filter.path, entry.path)) return false;
+  if (filter.ruleId !== undefined && entry.ruleId !== filter.ruleId) return false;
+  if (filter.scenario !== undefined && entry.scenario !== filter.scenario) return false;
+  if (filter.status !== undefined && entry.status !== filter.status) return false;
+  if (filter.source !== undefined && entry.source !== filter.source) return false;
+  return true;
+};
+
+const describeFilter = (filter: JournalFilter): string => {
+  const parts = FILTER_KEYS.filter((key) => filter[key] !== undefined).map((key) => `${key}=${filter[key]}`);
+  return parts.length > 0 ? parts.join(' ') : 'any request';
+};
+
+const checkExpectation = (expectation: VerificationExpectation, actual: number): string | undefined => {
+  const label = describeFilter(expectation);
+  if (expectation.count !== undefined && actual !== expectation.count) {
+    return `Expected ${expectation.count} request(s) matching ${label}, got ${actual}`;
+  }
+  if (expectation.atLeast !== undefined && actual < expectation.atLeast) {
+    return `Expected at least ${expectation.atLeast} request(s) matching ${label}, got ${actual}`;
+  }
+  if (expectation.atMost !== undefined && actual > expectation.atMost) {
+    return `Expected at most ${expectation.atMost} request(s) matching ${label}, got ${actual}`;
+  }
+  const hasBounds =
+    expectation.count !== undefined || expectation.atLeast !== undefined || expectation.atMost !== undefined;
+  if (!hasBounds && actual === 0) {
+    return `Expected at least 1 request(s) matching ${label}, got 0`;
+  }
+  return undefined;
+};
+
+/**
+ * In-memory log of handled requests, used to assert how often an API was called.
+ * An expectation without count, atLeast or atMost means "called at least once".
+ */
+export const createRequestJournal = (options: RequestJournalOptions = {}): RequestJournal => {
+  const limit = options.limit ?? DEFAULT_JOURNAL_LIMIT;
+  let entries: JournalEntry[] = [];
+  let nextId = 1;
+
+  const find = (filter: JournalFilter = {}): JournalEntry[] => {
+    return entries.filter((entry) => matchesFilter(entry, filter));
+  };
+
+  return {
+    record: (entry) => {
+      entries.push({ ...entry, id: nextId });
+      nextId += 1;
+      if (entries.length > limit) {
+        entries = entries.slice(entries.length - limit);
+      }
+    },
+    find,
+    count: (filter) => find(filter).length,
+    clear: () => {
+      entries = [];
+    },
+    verify: (expectations) => {
+      const mismatches: VerificationMismatch[] = [];
+      for (const expectation of expectations) {
+        const actual = find(expectation).length;
+        const message = checkExpectation(expectation, actual);
+        if (message) {
+          mismatches.push({ expectation, actual, message });
+        }
+      }
+      return { ok: mismatches.length === 0, mismatches };
+    },
+  };
+};
@@ -1,4 +1,6 @@
 import { EventEmitter } from 'node:events';
+import type { CrudAction } from '../resources/collections';
+import type { TimeoutMode } from '../scenarios/types';
 import type { TemplateHelperName } from '../templating/types';
 
 export type LogMode = 'ci' | 'cli' | 'ui';
@@ -12,6 +14,8 @@ export type LogEvent =
       ui: boolean;
       port: number;
       proxyBaseUrl?: string;
+      config?: string;
+      profile?: string;
     }
   | {
       event: 'startup-failed';
@@ -39,6 +43,21 @@ export type LogEvent =
       errors: number;
       warnings: number;
     }
+  | {
+      event: 'spec-lint';
+      errors: number;
+      warnings: number;
+      issues: Array<{
+        file: string;
+        path: string;
+        message: string;
+        severity: 'error' | 'warning';
+        code?: string;
+        ruleId?: string;
+        line?: number;
+        column?: number;
+      }>;
+    }
   | {
       event: 'scenarios-discovered';
       scenarios: string[];
@@ -72,11 +91,40 @@ export type LogEvent =
       scenarioId: string;
       ruleIndex: number;
       ruleId?: string;
+      /** Index of the response that answered, for rules with a response sequence. */
+      step?: number;
+    }
+  | {
+      event: 'state-changed';
+      scenarioId: string;
+      session?: string;
+      from: string;
+      to: string;
+      ruleIndex: number;
+      ruleId?: string;
     }
   | {
       event: 'execution-complete';
-      source: 'scenario' | 'auto-gen' | 'happy-path' | 'timeout' | 'proxy';
+      source:
+        | 'scenario'
+        | 'auto-gen'
+        | 'auto-gen-problem'
+        | 'happy-path'
+        | 'stateful'
+        | 'stateful-error'
+        | 'timeout'
+        | 'proxy'
+        | 'proxy-error'
+        | 'validation'
+        | 'not-acceptable';
+      /** 0 when the connection was left open or closed without an answer. */
       status: number;
+      /** Choices from the request's Prefer header, when it sent any. */
+      prefer?: { code?: number; example?: string; dynamic?: boolean };
+      /** Named example that was sent. */
+      example?: string;
+      /** Example the Prefer header asked for that was not found; the default was sent. */
+      missingExample?: string;
     }
   | {
       event: 'proxy-action';
@@ -90,6 +138,26 @@ export type LogEvent =
       status?: number;
       targetUrl?: string;
     }
+  | {
+      event: 'timeout-action';
+      scenarioId: string;
+      ruleIndex: number;
+      ruleId?: string;
+      mode: TimeoutMode;
+      afterMs: number;
+      /** The upstream did not answer in time, rather than a mocked delay. */
+      proxied: boolean;
+    }
+  | {
+      event: 'resource-action';
+      method: string;
+      path: string;
+      /** Collection path template, e.g. `/contracts`. */
+      collection: string;
+      action: CrudAction;
+      id?: string;
+      status: number;
+    }
   | {
       event: 'templates-applied';
       scenarioId: string;
@@ -97,6 +165,54 @@ export type LogEvent =
       ruleId?: string;
       helpers: TemplateHelperName[];
     }
+  | {
+      event: 'recording';
+      result: 'recorded' | 'duplicate' | 'failed';
+      method: string;
+      path: string;
+      ruleId?: string;
+      file?: string;
+      message?: string;
+    }
+  | {
+      event: 'reload';
+      result: 'applied' | 'failed';
+      files: string[];
+      scenarios?: string[];
+      routes?: number;
+      message?: string;
+    }
+  | {
+      event: 'request-validation';
+      method: string;
+      path: string;
+      operation: string;
+      status: number;
+      violations: Array<{
+        location: 'path' | 'query' | 'header' | 'body';
+        name?: string;
+        pointer?: string;
+        message: string;
+      }>;
+    }
+  | {
+      event: 'response-contract-violation';
+      method: string;
+      path: string;
+      operation: string;
+      source?: string;
+      scenarioId?: string;
+      ruleId?: string;
+      status: number;
+      action: 'warn' | 'fail';
+      violations: Array<{ pointer: string; message: string }>;
+    }
+  | {
+      event: 'admin-action';
+      action: string;
+      result: 'ok' | 'failed';
+      scenario?: string;
+    }
   | {
       event: 'server-ready';
       port: number;
@@ -179,6 +295,8 @@ export const createEventLogger = ({ mode, stream, format }: EventLoggerOptions):
           ` ○ ui=${event.ui}`,
           ` ○ port=${event.port}`,
           ` ○ proxy=${event.proxyBaseUrl ?? 'none'}`,
+          ` ○ config=${event.config ?? 'none'}`,
+          ` ○ profile=${event.profile ?? 'none'}`,
         ].map(colorizeLine).join('\n');
       case 'startup-failed':
         return [
@@ -202,6 +320,15 @@ export const createEventLogger = ({ mode, stream, format }: EventLoggerOptions):
           ` ○ errors=${event.errors}`,
           ` ○ warnings=${event.warnings}`,
         ].map(colorizeLine).join('\n');
+      case 'spec-lint':
+        return [
+          `${event.errors > 0 ? '✖' : '▶'} Spec lint`,
+          ` ○ errors=${event.errors}`,
+          ` ○ warnings=${event.warnings}`,
+          ...event.issues.map(
+            (issue) => ` ○ ${issue.severity} ${issue.code ?? 'none'} ${issue.ruleId ?? issue.path}: ${issue.message}`
+          ),
+        ].map(colorizeLine).join('\n');
       case 'scenarios-discovered':
         return [
           '▶ Scenarios discovered',
@@ -233,12 +360,30 @@ export const createEventLogger = ({ mode, stream, format }: EventLoggerOptions):
           ` ○ scenario=${event.scenarioId}`,
           ` ○ ruleIndex=${event.ruleIndex}`,
           ` ○ ruleId=${event.ruleId ?? 'none'}`,
+          ...(event.step !== undefined ? [` ○ step=${event.step}`] : []),
+        ].map(colorizeLine).join('\n');
+      case 'state-changed':
+        return [
+          `▶ State ${event.from} → ${event.to}`,
+          ` ○ scenario=${event.scenarioId}`,
+          ...(event.session !== undefined ? [` ○ session=${event.session}`] : []),
+          ` ○ ruleIndex=${event.ruleIndex}`,
+          ` ○ ruleId=${event.ruleId ?? 'none'}`,
         ].map(colorizeLine).join('\n');
       case 'execution-complete':
         return [
           '▶ Execution complete',
           ` ○ source=${event.source}`,
           ` ○ status=${event.status}`,
+          ...(event.prefer
+            ? [
+                ` ○ prefer=${Object.entries(event.prefer)
+                  .map(([key, value]) => `${key}=${value}`)
+                  .join(', ')}`,
+              ]
+            : []),
+          ...(event.example ? [` ○ example=${event.example}`] : []),
+          ...(event.missingExample ? [` ○ missingExample=${event.missingExample}`] : []),
         ].map(colorizeLine).join('\n');
       case 'proxy-action': {
         if (event.result === 'not-matched' && event.action === 'proxy') {
@@ -275,6 +420,24 @@ export const createEventLogger = ({ mode, stream, format }: EventLoggerOptions):
           ` ○ ${details.join(' + ')}`,
         ].map(colorizeLine).join('\n');
       }
+      case 'timeout-action':
+        return [
+          `▶ Timeout ${event.mode}`,
+          ` ○ scenario=${event.scenarioId}`,
+          ` ○ ruleIndex=${event.ruleIndex}`,
+          ` ○ ruleId=${event.ruleId ?? 'none'}`,
+          ` ○ after=${event.afterMs}ms`,
+          ` ○ proxied=${event.proxied}`,
+        ].map(colorizeLine).join('\n');
+      case 'resource-action':
+        return [
+          `▶ Resource ${event.action}`,
+          ` ○ method=${event.method}`,
+          ` ○ path=${event.path}`,
+          ` ○ collection=${event.collection}`,
+          ...(event.id !== undefined ? [` ○ id=${event.id}`] : []),
+          ` ○ status=${event.status}`,
+        ].map(colorizeLine).join('\n');
       case 'templates-applied':
         return [
           '▶ Templates applied',
@@ -283,6 +446,53 @@ export const createEventLogger = ({ mode, stream, format }: EventLoggerOptions):
           ` ○ ruleId=${event.ruleId ?? 'none'}`,
           ` ○ helpers=${event.helpers.join(', ')}`,
         ].map(colorizeLine).join('\n');
+      case 'recording':
+        return [
+          `${event.result === 'failed' ? '✖' : '▶'} Recording`,
+          ` ○ result=${event.result}`,
+          ` ○ method=${event.method}`,
+          ` ○ path=${event.path}`,
+          ...(event.ruleId ? [` ○ ruleId=${event.ruleId}`] : []),
+          ...(event.message ? [` ○ message=${event.message}`] : []),
+        ].map(colorizeLine).join('\n');
+      case 'reload':
+        return [
+          `${event.result === 'failed' ? '✖' : '✔'} Reload`,
+          ` ○ result=${event.result}`,
+          ` ○ files=${event.files.length}`,
+          ...(event.scenarios ? [` ○ scenarios=${event.scenarios.length}`] : []),
+          ...(event.routes !== undefined ? [` ○ routes=${event.routes}`] : []),
+          ...(event.message ? [` ○ message=${event.message}`] : []),
+        ].map(colorizeLine).join('\n');
+      case 'request-validation':
+        return [
+          '✖ Request validation failed',
+          ` ○ request=${event.method} ${event.path}`,
+          ` ○ operation=${event.operation}`,
+          ` ○ status=${event.status}`,
+          ...event.violations.map(
+            (violation) =>
+              ` ○ ${violation.location}${violation.name ? ` ${violation.name}` : ''}${violation.pointer ?? ''}: ${violation.message}`
+          ),
+        ].map(colorizeLine).join('\n');
+      case 'response-contract-violation':
+        return [
+          '✖ Response contract violation',
+          ` ○ request=${event.method} ${event.path}`,
+          ` ○ operation=${event.operation}`,
+          ` ○ source=${event.source ?? 'none'}`,
+          ` ○ ruleId=${event.ruleId ?? 'none'}`,
+          ` ○ status=${event.status}`,
+          ` ○ action=${event.action}`,
+          ...event.violations.map((violation) => ` ○ ${violation.pointer || '/'} ${violation.message}`),
+        ].map(colorizeLine).join('\n');
+      case 'admin-action':
+        return [
+          `${event.result === 'failed' ? '✖' : '▶'} Admin action`,
+          ` ○ action=${event.action}`,
+          ` ○ result=${event.result}`,
+          ...(event.scenario ? [` ○ scenario=${event.scenario}`] : []),
+        ].map(colorizeLine).join('\n');
       case 'server-ready':
         return [
           '▶ Server ready',
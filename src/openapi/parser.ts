@@ -18,6 +18,18 @@ export const loadOpenApiSpec = async (specPath: string): Promise<ApiSpec> => {
   return api;
 };
 
+const mergeParameters = (
+  pathLevel: OpenAPIV3.PathItemObject['parameters'],
+  operationLevel: OpenAPIV3.OperationObject['parameters']
+): OpenAPIV3.ParameterObject[] => {
+  const merged = new Map<string, OpenAPIV3.ParameterObject>();
+  // The spec is dereferenced, so every entry is a parameter object.
+  for (const parameter of [...(pathLevel ?? []), ...(operationLevel ?? [])] as OpenAPIV3.ParameterObject[]) {
+    merged.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+  return [...merged.values()];
+};
+
 export const extractRoutes = (spec: ApiSpec): ApiRoute[] => {
   const routes: ApiRoute[] = [];
 
@@ -34,6 +46,7 @@ export const extractRoutes = (spec: ApiSpec): ApiRoute[] => {
         fastifyPath: toFastifyPath(pathKey),
         operation,
         responses: operation.responses || {},
+        parameters: mergeParameters(pathItem.parameters, operation.parameters),
       });
     }
   }
@@ -0,0 +1,165 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { matchPathTemplate } from '../utils/path';
+import { isJsonMediaType, SchemaIssue, validateParameterValue, validateSchemaValue } from './schema';
+import { ApiRoute } from './types';
+
+export type RequestViolation = {
+  location: 'path' | 'query' | 'header' | 'body';
+  /** Parameter name; absent for body violations. */
+  name?: string;
+  /** JSON pointer into the parameter or body value; absent when the value itself is wrong. */
+  pointer?: string;
+  message: string;
+};
+
+export type IncomingRequest = {
+  path: string;
+  query: Record<string, unknown>;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+};
+
+// OpenAPI says header parameters with these names are ignored.
+const IGNORED_HEADERS = new Set(['accept', 'content-type', 'authorization']);
+
+const toViolation = (
+  location: RequestViolation['location'],
+  name: string | undefined,
+  issue: SchemaIssue
+): RequestViolation => ({
+  location,
+  ...(name ? { name } : {}),
+  ...(issue.pointer ? { pointer: issue.pointer } : {}),
+  message: issue.message,
+});
+
+const isEmptyBody = (body: unknown): boolean => body === undefined || body === null || body === '';
+
+const mediaTypeOf = (value: string | string[] | undefined): string | undefined => {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw?.split(';')[0].trim().toLowerCase() || undefined;
+};
+
+// Exact media types win over ranges such as application/* and */*.
+const findMediaType = (
+  content: Record<string, OpenAPIV3.MediaTypeObject>,
+  mediaType: string
+): string | undefined => {
+  const keys = Object.keys(content);
+  const [type] = mediaType.split('/');
+  return (
+    keys.find((key) => key.toLowerCase() === mediaType) ??
+    keys.find((key) => key.toLowerCase() === `${type}/*`) ??
+    keys.find((key) => key === '*/*')
+  );
+};
+
+const readParameter = (
+  parameter: OpenAPIV3.ParameterObject,
+  request: IncomingRequest,
+  pathParams: Record<string, string>
+): string | string[] | undefined => {
+  switch (parameter.in) {
+    case 'path':
+      return pathParams[parameter.name];
+    case 'query':
+      return request.query[parameter.name] as string | string[] | undefined;
+    case 'header':
+      return request.headers[parameter.name.toLowerCase()];
+    default:
+      return undefined;
+  }
+};
+
+// Form-style query arrays without explode, and all header/path arrays, are comma separated.
+const splitArrayValue = (
+  parameter: OpenAPIV3.ParameterObject,
+  value: string | string[]
+): string | string[] => {
+  const schema = parameter.schema as OpenAPIV3.SchemaObject | undefined;
+  if (schema?.type !== 'array' || Array.isArray(value)) return value;
+  const exploded = parameter.explode ?? (parameter.style ?? 'form') === 'form';
+  if (parameter.in === 'query' && exploded) return value;
+  return value.split(',');
+};
+
+const validateParameter = (
+  parameter: OpenAPIV3.ParameterObject,
+  value: string | string[]
+): SchemaIssue[] => {
+  if (parameter.schema) {
+    return validateParameterValue(parameter.schema, splitArrayValue(parameter, value));
+  }
+
+  // Parameters described with `content` carry a serialized (JSON) value.
+  const [mediaType, media] = Object.entries(parameter.content ?? {})[0] ?? [];
+  if (!mediaType || !media?.schema || !isJsonMediaType(mediaType)) return [];
+  try {
+    return validateSchemaValue(media.schema, JSON.parse(Array.isArray(value) ? value[0] : value));
+  } catch {
+    return [{ pointer: '', message: `must be valid ${mediaType}` }];
+  }
+};
+
+const validateBody = (
+  requestBody: OpenAPIV3.RequestBodyObject,
+  request: IncomingRequest
+): RequestViolation[] => {
+  if (isEmptyBody(request.body)) {
+    return requestBody.required ? [{ location: 'body', message: 'is required' }] : [];
+  }
+
+  const mediaType = mediaTypeOf(request.headers['content-type']);
+  const declared = Object.keys(requestBody.content);
+  const mediaKey = mediaType ? findMediaType(requestBody.content, mediaType) : undefined;
+
+  if (!mediaKey) {
+    return [
+      {
+        location: 'body',
+        message: `Content-Type ${mediaType ?? '(none)'} is not one of ${declared.join(', ')}`,
+      },
+    ];
+  }
+
+  const schema = requestBody.content[mediaKey].schema;
+  if (!schema || !mediaType || !isJsonMediaType(mediaType)) return [];
+
+  return validateSchemaValue(schema, request.body).map((issue) => toViolation('body', undefined, issue));
+};
+
+/**
+ * Check a request against its operation: path, query and header parameters (values
+ * coerced from strings to their schema types) and the JSON request body. Cookie
+ * parameters and non-JSON bodies beyond their media type are not checked.
+ */
+export const validateRequest = (route: ApiRoute, request: IncomingRequest): RequestViolation[] => {
+  const violations: RequestViolation[] = [];
+  const pathParams = matchPathTemplate(route.path, request.path) ?? {};
+
+  for (const parameter of route.parameters ?? []) {
+    if (parameter.in === 'cookie') continue;
+    if (parameter.in === 'header' && IGNORED_HEADERS.has(parameter.name.toLowerCase())) continue;
+
+    const location = parameter.in as RequestViolation['location'];
+    const value = readParameter(parameter, request, pathParams);
+
+    if (value === undefined || (value === '' && !parameter.allowEmptyValue && parameter.in === 'query')) {
+      if (parameter.required) {
+        violations.push({ location, name: parameter.name, message: 'is required' });
+      }
+      continue;
+    }
+
+    for (const issue of validateParameter(parameter, value)) {
+      violations.push(toViolation(location, parameter.name, issue));
+    }
+  }
+
+  const requestBody = route.operation.requestBody as OpenAPIV3.RequestBodyObject | undefined;
+  if (requestBody?.content) {
+    violations.push(...validateBody(requestBody, request));
+  }
+
+  return violations;
+};
@@ -0,0 +1,45 @@
+import {
+  isJsonMediaType,
+  isStatusDeclared,
+  resolveResponseSchema,
+  SchemaIssue,
+  validateSchemaValue,
+} from './schema';
+import { ApiRoute } from './types';
+
+export type ResponseValidationMode = 'warn' | 'fail';
+
+export type OutgoingResponse = {
+  status: number;
+  contentType?: string;
+  /** Serialized payload as sent on the wire. */
+  payload?: string | Buffer;
+};
+
+/**
+ * Check an outgoing response against the operation's declared responses: the status
+ * must be declared, and a JSON payload must match the schema for that status and
+ * content type. Empty and non-JSON payloads only get the status check.
+ */
+export const validateResponse = (route: ApiRoute, response: OutgoingResponse): SchemaIssue[] => {
+  if (!isStatusDeclared(route.responses, response.status)) {
+    return [{ pointer: '', message: `status ${response.status} is not declared` }];
+  }
+
+  const text = response.payload === undefined ? '' : response.payload.toString();
+  if (text === '' || (response.contentType && !isJsonMediaType(response.contentType))) {
+    return [];
+  }
+
+  const resolved = resolveResponseSchema(route.responses, response.status, response.contentType);
+  if (!resolved?.schema) return [];
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return [{ pointer: '', message: 'is not valid JSON' }];
+  }
+
+  return validateSchemaValue(resolved.schema, body);
+};
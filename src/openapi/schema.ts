@@ -0,0 +1,253 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { OpenAPIV3 } from 'openapi-types';
+
+export type OpenApiSchema = OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+
+export type SchemaIssue = {
+  /** JSON pointer into the validated value ('' is the root). */
+  pointer: string;
+  message: string;
+};
+
+export type ResolvedMediaSchema = {
+  status: string;
+  contentType: string;
+  schema?: OpenApiSchema;
+};
+
+// OpenAPI-specific formats that JSON Schema validators do not know about.
+const OPENAPI_FORMATS = ['int32', 'int64', 'float', 'double', 'byte', 'binary', 'password'];
+
+const ajv = new Ajv({
+  allErrors: true,
+  strict: false,
+  logger: false,
+});
+addFormats(ajv);
+for (const format of OPENAPI_FORMATS) {
+  ajv.addFormat(format, true);
+}
+
+// Parameters arrive as strings, so they are validated by a second instance that coerces types.
+const coercingAjv = new Ajv({
+  allErrors: true,
+  strict: false,
+  logger: false,
+  coerceTypes: 'array',
+});
+addFormats(coercingAjv);
+for (const format of OPENAPI_FORMATS) {
+  coercingAjv.addFormat(format, true);
+}
+
+const validators = new WeakMap<object, ValidateFunction | null>();
+const parameterValidators = new WeakMap<object, ValidateFunction | null>();
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Convert an OpenAPI 3.0 schema object into plain JSON Schema for Ajv.
+ * Recursive schemas produced by dereferencing are cut off at the first cycle.
+ */
+export const toJsonSchema = (schema: unknown, seen: Set<unknown> = new Set()): unknown => {
+  if (Array.isArray(schema)) {
+    return schema.map((entry) => toJsonSchema(entry, seen));
+  }
+
+  if (!isObject(schema)) {
+    return schema;
+  }
+
+  if (seen.has(schema)) {
+    return {};
+  }
+
+  seen.add(schema);
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'nullable' || key === 'discriminator' || key === 'xml' || key === 'example') {
+      continue;
+    }
+
+    if (key === 'properties' && isObject(value)) {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, entry]) => [name, toJsonSchema(entry, seen)])
+      );
+      continue;
+    }
+
+    result[key] = toJsonSchema(value, seen);
+  }
+
+  if (schema.exclusiveMinimum === true && typeof schema.minimum === 'number') {
+    result.exclusiveMinimum = schema.minimum;
+    delete result.minimum;
+  } else if (schema.exclusiveMinimum === false) {
+    delete result.exclusiveMinimum;
+  }
+
+  if (schema.exclusiveMaximum === true && typeof schema.maximum === 'number') {
+    result.exclusiveMaximum = schema.maximum;
+    delete result.maximum;
+  } else if (schema.exclusiveMaximum === false) {
+    delete result.exclusiveMaximum;
+  }
+
+  if (schema.nullable === true) {
+    if (typeof schema.type === 'string') {
+      result.type = [schema.type, 'null'];
+    }
+    if (Array.isArray(result.enum) && !result.enum.includes(null)) {
+      result.enum = [...result.enum, null];
+    }
+  }
+
+  seen.delete(schema);
+  return result;
+};
+
+const compile = (schema: OpenApiSchema): ValidateFunction | null => {
+  const cached = validators.get(schema);
+  if (cached !== undefined) return cached;
+
+  let validator: ValidateFunction | null;
+  try {
+    validator = ajv.compile(toJsonSchema(schema) as object);
+  } catch {
+    // An unsupported schema is treated as "anything goes" rather than a hard failure.
+    validator = null;
+  }
+  validators.set(schema, validator);
+  return validator;
+};
+
+// Ajv can only coerce values it can write back, so the parameter is wrapped in an object.
+const compileParameter = (schema: OpenApiSchema): ValidateFunction | null => {
+  const cached = parameterValidators.get(schema);
+  if (cached !== undefined) return cached;
+
+  let validator: ValidateFunction | null;
+  try {
+    validator = coercingAjv.compile({
+      type: 'object',
+      properties: { value: toJsonSchema(schema) },
+    });
+  } catch {
+    validator = null;
+  }
+  parameterValidators.set(schema, validator);
+  return validator;
+};
+
+const escapePointerToken = (token: string): string => token.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const toIssue = (error: ErrorObject): SchemaIssue => {
+  const params = error.params as Record<string, unknown>;
+  if (error.keyword === 'required' && typeof params.missingProperty === 'string') {
+    return {
+      pointer: `${error.instancePath}/${escapePointerToken(params.missingProperty)}`,
+      message: 'is required',
+    };
+  }
+
+  if (error.keyword === 'additionalProperties' && typeof params.additionalProperty === 'string') {
+    return {
+      pointer: `${error.instancePath}/${escapePointerToken(params.additionalProperty)}`,
+      message: 'is not allowed by the schema',
+    };
+  }
+
+  if (error.keyword === 'enum' && Array.isArray(params.allowedValues)) {
+    return {
+      pointer: error.instancePath,
+      message: `must be one of ${params.allowedValues.map((value) => JSON.stringify(value)).join(', ')}`,
+    };
+  }
+
+  return { pointer: error.instancePath, message: error.message ?? 'is invalid' };
+};
+
+export const validateSchemaValue = (schema: OpenApiSchema, value: unknown): SchemaIssue[] => {
+  const validator = compile(schema);
+  if (!validator || validator(value)) return [];
+
+  const seen = new Set<string>();
+  return (validator.errors ?? []).map(toIssue).filter((issue) => {
+    const key = `${issue.pointer}:${issue.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Validate a raw parameter value (a string, or a list for repeated query keys),
+ * coercing it to the schema's type first. Pointers are relative to the parameter.
+ */
+export const validateParameterValue = (schema: OpenApiSchema, value: string | string[]): SchemaIssue[] => {
+  const validator = compileParameter(schema);
+  if (!validator || validator({ value })) return [];
+
+  return (validator.errors ?? []).map(toIssue).map((issue) => ({
+    ...issue,
+    pointer: issue.pointer.replace(/^\/value/, ''),
+  }));
+};
+
+export const formatSchemaIssues = (issues: SchemaIssue[]): string => {
+  return issues.map((issue) => `${issue.pointer || '/'} ${issue.message}`).join('; ');
+};
+
+export const isJsonMediaType = (contentType: string): boolean => {
+  const base = contentType.split(';')[0].trim().toLowerCase();
+  return base === 'application/json' || base.endsWith('+json');
+};
+
+/** True when the status is declared exactly, as an NXX range, or through `default`. */
+export const isStatusDeclared = (responses: OpenAPIV3.ResponsesObject, status: number): boolean => {
+  const code = String(status);
+  return Object.keys(responses).some(
+    (key) => key === code || key === 'default' || key.toUpperCase() === `${code[0]}XX`
+  );
+};
+
+const pickResponseEntry = (
+  responses: OpenAPIV3.ResponsesObject,
+  status: number
+): { status: string; response: OpenAPIV3.ResponseObject } | undefined => {
+  const code = String(status);
+  const range = `${code[0]}XX`;
+  const key = [code, range, range.toLowerCase(), 'default'].find((candidate) => responses[candidate]);
+  if (!key) return undefined;
+  return { status: key, response: responses[key] as OpenAPIV3.ResponseObject };
+};
+
+/**
+ * Find the declared schema for a response status and content type. When no content
+ * type is given the JSON media type is preferred.
+ */
+export const resolveResponseSchema = (
+  responses: OpenAPIV3.ResponsesObject,
+  status: number,
+  contentType?: string
+): ResolvedMediaSchema | undefined => {
+  const entry = pickResponseEntry(responses, status);
+  if (!entry?.response.content) return undefined;
+
+  const content = entry.response.content;
+  const requested = contentType?.split(';')[0].trim().toLowerCase();
+  const mediaKey = requested
+    ? Object.keys(content).find((key) => key.toLowerCase() === requested)
+    : Object.keys(content).find((key) => isJsonMediaType(key));
+
+  if (!mediaKey) return undefined;
+  return {
+    status: entry.status,
+    contentType: mediaKey,
+    schema: content[mediaKey].schema,
+  };
+};
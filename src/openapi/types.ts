@@ -9,4 +9,6 @@ export type ApiRoute = {
   fastifyPath: string;
   operation: OpenAPIV3.OperationObject;
   responses: OpenAPIV3.ResponsesObject;
+  /** Path-level and operation-level parameters, operation entries winning on name and location. */
+  parameters?: OpenAPIV3.ParameterObject[];
 };
@@ -0,0 +1,206 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { parse, stringify } from 'yaml';
+import { EventLogger } from '../logging/event-logger';
+import { HttpMethod, ScenarioFile, ScenarioRule } from '../scenarios/types';
+import { escapeTemplates } from '../templating';
+
+export type RecordedExchange = {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  status: number;
+  headers: Record<string, string>;
+  body?: Buffer;
+};
+
+export type ProxyRecorder = {
+  record: (exchange: RecordedExchange) => Promise<void>;
+};
+
+export type ProxyRecorderOptions = {
+  outputDir: string;
+  scenarioName?: string;
+  proxyBaseUrl?: string;
+  eventLogger?: EventLogger;
+};
+
+export const RECORDED_SCENARIO_FILE = 'recorded.yaml';
+const RESPONSES_DIR = 'responses';
+const DEFAULT_SCENARIO_NAME = 'Recorded';
+
+const RECORDABLE_METHODS = new Set<string>(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD']);
+
+// Headers that describe a single upstream response rather than the resource itself.
+const VOLATILE_HEADERS = new Set([
+  'age',
+  'content-encoding',
+  'content-length',
+  'date',
+  'etag',
+  'last-modified',
+  'server',
+  'set-cookie',
+  'via',
+  'x-powered-by',
+]);
+
+const TEXT_CONTENT_TYPE = /^(text\/|application\/(xml|x-www-form-urlencoded|javascript))|\+xml/;
+
+const sortedQuery = <T>(query: Record<string, T>): Record<string, T> => {
+  return Object.fromEntries(Object.entries(query).sort(([a], [b]) => a.localeCompare(b)));
+};
+
+// Rules cannot tell requests apart beyond method, path and query, so that is what identifies an exchange.
+const exchangeKey = (method: string, requestPath: string, query: Record<string, unknown>): string => {
+  return JSON.stringify([method.toUpperCase(), requestPath, sortedQuery(query)]);
+};
+
+const slugify = (method: string, requestPath: string): string => {
+  const slug = requestPath
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${method.toLowerCase()}-${slug || 'root'}`;
+};
+
+const toBodyFile = (
+  body: Buffer | undefined,
+  contentType: string | undefined
+): { extension: string; content: string } | undefined => {
+  if (!body || body.length === 0) return undefined;
+  const text = body.toString('utf-8');
+
+  // Recorded payloads are served through the template renderer, so literal "{{" is escaped.
+  try {
+    return { extension: 'json', content: `${JSON.stringify(escapeTemplates(JSON.parse(text)), null, 2)}\n` };
+  } catch {
+    if (contentType && TEXT_CONTENT_TYPE.test(contentType.toLowerCase())) {
+      return { extension: 'txt', content: escapeTemplates(text) as string };
+    }
+    // Binary payloads cannot be served from a bodyFile; the rule keeps status and headers only.
+    return undefined;
+  }
+};
+
+const readExistingScenario = async (filePath: string): Promise<ScenarioFile | undefined> => {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return parse(content) as ScenarioFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+};
+
+/**
+ * Capture proxied exchanges as a scenario file plus response bodies. Identical
+ * requests (same method, path and query) are recorded once; an existing recording
+ * in the output directory is extended rather than replaced.
+ */
+export const createProxyRecorder = async (options: ProxyRecorderOptions): Promise<ProxyRecorder> => {
+  const scenarioPath = path.join(options.outputDir, RECORDED_SCENARIO_FILE);
+  const existing = await readExistingScenario(scenarioPath);
+  const rules: ScenarioRule[] = existing?.rules ? [...existing.rules] : [];
+  const seen = new Set<string>(
+    rules.map((rule) => exchangeKey(rule.match.method ?? 'GET', rule.match.path ?? '', rule.match.query ?? {}))
+  );
+  const usedIds = new Set(rules.map((rule) => rule.id).filter((id): id is string => Boolean(id)));
+  const scenario: ScenarioFile = {
+    scenario: existing?.scenario ?? options.scenarioName ?? DEFAULT_SCENARIO_NAME,
+    description:
+      existing?.description ??
+      (options.proxyBaseUrl ? `Recorded from ${options.proxyBaseUrl}` : 'Recorded proxy traffic'),
+    version: existing?.version ?? '1.0.0',
+    rules,
+  };
+
+  let queue: Promise<void> = Promise.resolve();
+
+  const nextRuleId = (method: string, requestPath: string): string => {
+    const base = slugify(method, requestPath);
+    let candidate = base;
+    let counter = 2;
+    while (usedIds.has(candidate)) {
+      candidate = `${base}-${counter}`;
+      counter += 1;
+    }
+    usedIds.add(candidate);
+    return candidate;
+  };
+
+  const persist = async (exchange: RecordedExchange): Promise<void> => {
+    const method = exchange.method.toUpperCase();
+    const key = exchangeKey(method, exchange.path, exchange.query);
+
+    if (!RECORDABLE_METHODS.has(method) || seen.has(key)) {
+      options.eventLogger?.emitEvent({
+        event: 'recording',
+        result: 'duplicate',
+        method,
+        path: exchange.path,
+      });
+      return;
+    }
+
+    seen.add(key);
+    const ruleId = nextRuleId(method, exchange.path);
+    const headers = Object.fromEntries(
+      Object.entries(exchange.headers)
+        .filter(([name]) => !VOLATILE_HEADERS.has(name.toLowerCase()))
+        .sort(([a], [b]) => a.localeCompare(b))
+    );
+    const bodyFile = toBodyFile(exchange.body, exchange.headers['content-type']);
+    const bodyFilePath = bodyFile ? `${RESPONSES_DIR}/${ruleId}.${bodyFile.extension}` : undefined;
+
+    const rule: ScenarioRule = {
+      id: ruleId,
+      match: {
+        path: exchange.path,
+        method: method as HttpMethod,
+        ...(Object.keys(exchange.query).length > 0 ? { query: sortedQuery(exchange.query) } : {}),
+      },
+      respond: {
+        status: exchange.status,
+        ...(Object.keys(headers).length > 0 ? { headers } : {}),
+        ...(bodyFilePath ? { bodyFile: bodyFilePath } : {}),
+      },
+    };
+
+    if (bodyFile && bodyFilePath) {
+      await fs.mkdir(path.join(options.outputDir, RESPONSES_DIR), { recursive: true });
+      await fs.writeFile(path.join(options.outputDir, bodyFilePath), bodyFile.content, 'utf-8');
+    }
+
+    rules.push(rule);
+    await fs.mkdir(options.outputDir, { recursive: true });
+    await fs.writeFile(scenarioPath, stringify(scenario), 'utf-8');
+
+    options.eventLogger?.emitEvent({
+      event: 'recording',
+      result: 'recorded',
+      method,
+      path: exchange.path,
+      ruleId,
+      file: scenarioPath,
+    });
+  };
+
+  const record = (exchange: RecordedExchange): Promise<void> => {
+    // Serialize writes so concurrent requests never interleave file updates.
+    queue = queue.then(() =>
+      persist(exchange).catch((error) => {
+        options.eventLogger?.emitEvent({
+          event: 'recording',
+          result: 'failed',
+          method: exchange.method.toUpperCase(),
+          path: exchange.path,
+          message: error instanceof Error ? error.message : 'Unknown recording error',
+        });
+      })
+    );
+    return queue;
+  };
+
+  return { record };
+};
@@ -0,0 +1,169 @@
+import path from 'node:path';
+import { formatValidationErrors, ValidationError } from '../scenarios/validation';
+
+export type ReportFormat = 'text' | 'json' | 'junit' | 'sarif';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'junit', 'sarif'];
+
+export type ValidationReportInput = {
+  files: string[];
+  errors: ValidationError[];
+  cwd?: string;
+};
+
+const TOOL_NAME = 'mock-hub';
+const TOOL_URI = 'https://github.com/brent-broeckx/mock-hub';
+const DEFAULT_SARIF_RULE = 'scenario-validation';
+
+export const isReportFormat = (value: string): value is ReportFormat => {
+  return (REPORT_FORMATS as string[]).includes(value);
+};
+
+const sortErrors = (errors: ValidationError[]): ValidationError[] => {
+  return [...errors].sort((a, b) =>
+    `${a.file}:${String(a.line ?? 0).padStart(6, '0')}:${a.path}:${a.message}`.localeCompare(
+      `${b.file}:${String(b.line ?? 0).padStart(6, '0')}:${b.path}:${b.message}`
+    )
+  );
+};
+
+const countBySeverity = (errors: ValidationError[]) => ({
+  errors: errors.filter((entry) => entry.severity === 'error').length,
+  warnings: errors.filter((entry) => entry.severity === 'warning').length,
+});
+
+const toRelativeUri = (file: string, cwd: string): string => {
+  const relative = path.isAbsolute(file) ? path.relative(cwd, file) : file;
+  return relative.split(path.sep).join('/');
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const describeError = (error: ValidationError): string => {
+  const location = error.line !== undefined ? `:${error.line}:${error.column ?? 0}` : '';
+  const pathLabel = error.ruleId ? `${error.ruleId}: ${error.path}` : error.path;
+  const code = error.code ? ` [${error.code}]` : '';
+  return `${error.severity.toUpperCase()}${code} ${error.file}${location} ${pathLabel} → ${error.message}`;
+};
+
+const formatText = ({ files, errors }: ValidationReportInput): string => {
+  const counts = countBySeverity(errors);
+  const summary = `${files.length} file(s) validated: ${counts.errors} error(s), ${counts.warnings} warning(s)`;
+  if (errors.length === 0) {
+    return `✔ ${summary}`;
+  }
+  return `${formatValidationErrors(sortErrors(errors))}\n\n${counts.errors > 0 ? '✖' : '✔'} ${summary}`;
+};
+
+const formatJson = ({ errors }: ValidationReportInput): string => {
+  return JSON.stringify(sortErrors(errors), null, 2);
+};
+
+const formatJunit = ({ files, errors, cwd = process.cwd() }: ValidationReportInput): string => {
+  const sorted = sortErrors(errors);
+  const allFiles = [...new Set([...files, ...sorted.map((error) => error.file)])].sort();
+  const failures = allFiles.filter((file) =>
+    sorted.some((error) => error.file === file && error.severity === 'error')
+  ).length;
+
+  const testcases = allFiles.map((file) => {
+    const name = escapeXml(toRelativeUri(file, cwd));
+    const fileErrors = sorted.filter((error) => error.file === file);
+    const failing = fileErrors.filter((error) => error.severity === 'error');
+    const warnings = fileErrors.filter((error) => error.severity === 'warning');
+    const lines = [`    <testcase classname="${TOOL_NAME}.validate" name="${name}" file="${name}">`];
+
+    if (failing.length > 0) {
+      const message = escapeXml(failing[0].message);
+      const details = escapeXml(failing.map(describeError).join('\n'));
+      lines.push(`      <failure message="${message}" type="ValidationError">${details}</failure>`);
+    }
+
+    if (warnings.length > 0) {
+      lines.push(`      <system-out>${escapeXml(warnings.map(describeError).join('\n'))}</system-out>`);
+    }
+
+    lines.push('    </testcase>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${allFiles.length}" failures="${failures}">`,
+    `  <testsuite name="${TOOL_NAME} validate" tests="${allFiles.length}" failures="${failures}" errors="0" skipped="0">`,
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n');
+};
+
+const formatSarif = ({ errors, cwd = process.cwd() }: ValidationReportInput): string => {
+  const sorted = sortErrors(errors);
+  const ruleIds = [...new Set(sorted.map((error) => error.code ?? DEFAULT_SARIF_RULE))].sort();
+
+  const results = sorted.map((error) => {
+    const region =
+      error.line !== undefined
+        ? { startLine: error.line, startColumn: error.column ?? 1 }
+        : undefined;
+    return {
+      ruleId: error.code ?? DEFAULT_SARIF_RULE,
+      level: error.severity,
+      message: {
+        text: error.ruleId ? `${error.ruleId}: ${error.path} → ${error.message}` : `${error.path} → ${error.message}`,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: toRelativeUri(error.file, cwd) },
+            ...(region ? { region } : {}),
+          },
+          logicalLocations: error.path ? [{ fullyQualifiedName: error.path }] : undefined,
+        },
+      ],
+    };
+  });
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_URI,
+            rules: ruleIds.map((id) => ({ id, name: id })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+};
+
+export const formatValidationReport = (input: ValidationReportInput, format: ReportFormat): string => {
+  switch (format) {
+    case 'text':
+      return formatText(input);
+    case 'json':
+      return formatJson(input);
+    case 'junit':
+      return formatJunit(input);
+    case 'sarif':
+      return formatSarif(input);
+    default: {
+      const exhaustive: never = format;
+      return exhaustive;
+    }
+  }
+};
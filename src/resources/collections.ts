@@ -0,0 +1,169 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { isJsonMediaType } from '../openapi/schema';
+import { ApiRoute } from '../openapi/types';
+import { matchPathTemplate } from '../utils/path';
+
+export type CrudAction = 'list' | 'create' | 'read' | 'replace' | 'update' | 'delete';
+
+/** How new ids are generated: counting numbers, numbers as strings, or UUIDs. */
+export type IdType = 'number' | 'string' | 'uuid';
+
+/**
+ * A collection inferred from a path pair such as `/contracts` and
+ * `/contracts/{contractId}`. Nested collections keep their parent params in `path`.
+ */
+export type ResourceCollection = {
+  path: string;
+  itemPath: string;
+  /** Name of the item path parameter, e.g. `contractId`. */
+  param: string;
+  /** Body property that holds the id. */
+  idField: string;
+  idType: IdType;
+  /** Set when the list response wraps the items in an object, e.g. `{ items: [...] }`. */
+  listProperty?: string;
+  operations: Partial<Record<CrudAction, ApiRoute>>;
+};
+
+/** A request resolved to a CRUD operation on one concrete collection, e.g. `/customers/7/contracts`. */
+export type CrudOperation = {
+  collection: ResourceCollection;
+  action: CrudAction;
+  route: ApiRoute;
+  collectionPath: string;
+  id?: string;
+};
+
+const COLLECTION_ACTIONS: Partial<Record<string, CrudAction>> = { GET: 'list', POST: 'create' };
+const ITEM_ACTIONS: Partial<Record<string, CrudAction>> = {
+  GET: 'read',
+  PUT: 'replace',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+const asSchema = (schema: unknown): OpenAPIV3.SchemaObject | undefined => {
+  return typeof schema === 'object' && schema !== null && !('$ref' in schema)
+    ? (schema as OpenAPIV3.SchemaObject)
+    : undefined;
+};
+
+const jsonSchemaOf = (content: Record<string, OpenAPIV3.MediaTypeObject> | undefined) => {
+  const key = Object.keys(content ?? {}).find(isJsonMediaType);
+  return key ? asSchema(content?.[key].schema) : undefined;
+};
+
+const successSchema = (route: ApiRoute | undefined): OpenAPIV3.SchemaObject | undefined => {
+  const status = Object.keys(route?.responses ?? {})
+    .filter((code) => /^2\d{2}$/.test(code))
+    .sort()[0];
+  const response = status ? (route?.responses[status] as OpenAPIV3.ResponseObject) : undefined;
+  return jsonSchemaOf(response?.content);
+};
+
+const requestSchema = (route: ApiRoute | undefined): OpenAPIV3.SchemaObject | undefined => {
+  return jsonSchemaOf((route?.operation.requestBody as OpenAPIV3.RequestBodyObject | undefined)?.content);
+};
+
+const toIdType = (schema: OpenAPIV3.SchemaObject | undefined): IdType => {
+  if (schema?.type === 'integer' || schema?.type === 'number') return 'number';
+  return schema?.format === 'uuid' ? 'uuid' : 'string';
+};
+
+// The item schema names the id: `id` when it has one, else the path parameter itself.
+const inferId = (
+  param: string,
+  operations: ResourceCollection['operations']
+): Pick<ResourceCollection, 'idField' | 'idType'> => {
+  const schemas = [
+    successSchema(operations.read),
+    successSchema(operations.create),
+    requestSchema(operations.create),
+    requestSchema(operations.replace),
+  ];
+  for (const idField of ['id', param]) {
+    const holder = schemas.find((schema) => schema?.properties?.[idField]);
+    if (holder) return { idField, idType: toIdType(asSchema(holder.properties?.[idField])) };
+  }
+  return { idField: 'id', idType: 'string' };
+};
+
+const inferListProperty = (list: ApiRoute | undefined): string | undefined => {
+  const schema = successSchema(list);
+  if (!schema || schema.type === 'array') return undefined;
+  const [name] = Object.entries(schema.properties ?? {}).find(([, property]) => asSchema(property)?.type === 'array') ?? [];
+  return name;
+};
+
+/**
+ * Find the collections in a route table: every path with a sibling `<path>/{param}`
+ * path forms one, and the pair's GET/POST and GET/PUT/PATCH/DELETE operations are its
+ * CRUD operations. Other operations on the paths are not part of the collection.
+ */
+export const inferCollections = (routes: ApiRoute[]): ResourceCollection[] => {
+  const collections: ResourceCollection[] = [];
+  const paths = [...new Set(routes.map((route) => route.path))];
+
+  for (const itemPath of paths) {
+    const param = /^(.*)\/{([^}/]+)}$/.exec(itemPath);
+    if (!param || !paths.includes(param[1])) continue;
+
+    const [, path, name] = param;
+    const operations: ResourceCollection['operations'] = {};
+    for (const route of routes) {
+      const action =
+        route.path === path ? COLLECTION_ACTIONS[route.method] : route.path === itemPath ? ITEM_ACTIONS[route.method] : undefined;
+      if (action) operations[action] = route;
+    }
+    if (Object.keys(operations).length === 0) continue;
+
+    collections.push({
+      path,
+      itemPath,
+      param: name,
+      ...inferId(name, operations),
+      listProperty: inferListProperty(operations.list),
+      operations,
+    });
+  }
+
+  return collections;
+};
+
+/** The CRUD operation a request to `route` performs, or undefined for any other operation. */
+export const resolveCrudOperation = (
+  collections: ResourceCollection[],
+  route: ApiRoute,
+  requestPath: string
+): CrudOperation | undefined => {
+  for (const collection of collections) {
+    const action = (Object.keys(collection.operations) as CrudAction[]).find(
+      (key) => collection.operations[key] === route
+    );
+    if (!action) continue;
+
+    const params = matchPathTemplate(route.path, requestPath);
+    if (!params) return undefined;
+
+    const trimmed = requestPath.length > 1 && requestPath.endsWith('/') ? requestPath.slice(0, -1) : requestPath;
+    if (route.path === collection.path) {
+      return { collection, action, route, collectionPath: trimmed };
+    }
+    return {
+      collection,
+      action,
+      route,
+      collectionPath: trimmed.slice(0, trimmed.lastIndexOf('/')),
+      id: params[collection.param],
+    };
+  }
+  return undefined;
+};
+
+/** The collection whose path template a concrete collection path such as `/customers/7/contracts` fits. */
+export const findCollection = (
+  collections: ResourceCollection[],
+  collectionPath: string
+): ResourceCollection | undefined => {
+  return collections.find((collection) => matchPathTemplate(collection.path, collectionPath) !== undefined);
+};
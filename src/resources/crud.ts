@@ -0,0 +1,99 @@
+import { IncomingRequest, RequestViolation, validateRequest } from '../openapi/request-validation';
+import { ResourceItem, ResourceStore } from '../state/resource-store';
+import { CrudAction, CrudOperation } from './collections';
+
+export type CrudResult = {
+  status: number;
+  body?: unknown;
+};
+
+const DEFAULT_STATUS: Record<CrudAction, number> = {
+  list: 200,
+  create: 201,
+  read: 200,
+  replace: 200,
+  update: 200,
+  delete: 204,
+};
+
+const WRITE_ACTIONS = new Set<CrudAction>(['create', 'replace', 'update']);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// The lowest declared 2xx status, so a spec answering POST with 200 keeps doing so.
+const successStatus = (operation: CrudOperation): number => {
+  const declared = Object.keys(operation.route.responses)
+    .filter((code) => /^2\d{2}$/.test(code))
+    .map(Number)
+    .sort((a, b) => a - b);
+  return declared[0] ?? DEFAULT_STATUS[operation.action];
+};
+
+// JSON merge patch (RFC 7386): null removes a key, objects merge, anything else replaces.
+const mergePatch = (target: unknown, patch: unknown): unknown => {
+  if (!isPlainObject(patch)) return patch;
+  const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = mergePatch(result[key], value);
+  }
+  return result;
+};
+
+const notFound = (operation: CrudOperation): CrudResult => ({
+  status: 404,
+  body: { message: `No item "${operation.id}" in ${operation.collectionPath}` },
+});
+
+/**
+ * Check a write against its operation's request schema. Writes must send a JSON
+ * object even when the spec declares no request body schema.
+ */
+export const validateWrite = (operation: CrudOperation, request: IncomingRequest): RequestViolation[] => {
+  if (!WRITE_ACTIONS.has(operation.action)) return [];
+  const violations = validateRequest(operation.route, request);
+  if (violations.length === 0 && !isPlainObject(request.body)) {
+    return [{ location: 'body', message: 'must be a JSON object' }];
+  }
+  return violations;
+};
+
+/** Apply a CRUD operation to the store; the body of writes must already be validated. */
+export const executeCrud = (store: ResourceStore, operation: CrudOperation, body: unknown): CrudResult => {
+  const { collection, collectionPath, id } = operation;
+  const key = { collectionPath, idField: collection.idField };
+  const status = successStatus(operation);
+  const respond = (item?: unknown): CrudResult => (status === 204 ? { status } : { status, body: item });
+
+  switch (operation.action) {
+    case 'list': {
+      const items = store.list(collectionPath);
+      return respond(collection.listProperty ? { [collection.listProperty]: items } : items);
+    }
+    case 'create': {
+      const item = body as ResourceItem;
+      const given = item[collection.idField];
+      const hasId = given !== undefined && given !== null;
+      if (hasId && store.get(key, String(given))) {
+        return { status: 409, body: { message: `Item "${String(given)}" already exists in ${collectionPath}` } };
+      }
+      return respond(store.put(key, hasId ? item : { ...item, [collection.idField]: store.nextId(key, collection.idType) }));
+    }
+    case 'read': {
+      const item = store.get(key, id ?? '');
+      return item ? respond(item) : notFound(operation);
+    }
+    case 'replace':
+    case 'update': {
+      const current = store.get(key, id ?? '');
+      if (!current) return notFound(operation);
+      const next = (operation.action === 'replace' ? body : mergePatch(current, body)) as ResourceItem;
+      // The id comes from the path; a body cannot move an item.
+      return respond(store.put(key, { ...next, [collection.idField]: current[collection.idField] }));
+    }
+    case 'delete':
+      return store.delete(key, id ?? '') ? respond() : notFound(operation);
+  }
+};
@@ -0,0 +1,83 @@
+import fs from 'node:fs/promises';
+import { parseDocument } from 'yaml';
+import { attachFileLocations, formatValidationErrors, ValidationError } from '../scenarios/validation';
+import { ResourceSeed, ResourceStore } from '../state/resource-store';
+import { findCollection, ResourceCollection } from './collections';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readSeedValue = async (filePath: string): Promise<unknown> => {
+  const content = await fs.readFile(filePath, 'utf-8');
+  // JSON is YAML, so one parser covers both.
+  const doc = parseDocument(content, { prettyErrors: true, uniqueKeys: true });
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid seed file ${filePath}: ${doc.errors[0].message}`);
+  }
+  return doc.toJS({ maxAliasCount: 0 }) ?? {};
+};
+
+/**
+ * Check seed data against the collections of the spec and give items without an id
+ * one, as a POST would. Returns the seed with ids filled in, or the problems found.
+ */
+export const validateSeedData = (
+  value: unknown,
+  collections: ResourceCollection[],
+  filePath: string
+): { seed?: ResourceSeed; errors: ValidationError[] } => {
+  const errors: ValidationError[] = [];
+  const push = (path: string, message: string): void => {
+    errors.push({ file: filePath, path, message, severity: 'error' });
+  };
+
+  if (!isPlainObject(value)) {
+    push('', 'Seed data must be an object of collection paths');
+    return { errors };
+  }
+
+  const store = new ResourceStore();
+  for (const [collectionPath, items] of Object.entries(value)) {
+    const collection = findCollection(collections, collectionPath);
+    if (!collection) {
+      push(collectionPath, `"${collectionPath}" is not a collection in the spec`);
+      continue;
+    }
+    if (!Array.isArray(items)) {
+      push(collectionPath, 'Seed items must be a list');
+      continue;
+    }
+
+    const key = { collectionPath, idField: collection.idField };
+    for (const [index, item] of items.entries()) {
+      if (!isPlainObject(item)) {
+        push(`${collectionPath}[${index}]`, 'Seed items must be objects');
+        continue;
+      }
+      const id = item[collection.idField];
+      const hasId = id !== undefined && id !== null;
+      if (hasId && store.get(key, String(id))) {
+        push(`${collectionPath}[${index}]`, `Duplicate ${collection.idField} "${String(id)}"`);
+        continue;
+      }
+      store.put(key, hasId ? item : { ...item, [collection.idField]: store.nextId(key, collection.idType) });
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+  const seed: ResourceSeed = Object.fromEntries(
+    Object.keys(value).map((collectionPath) => [collectionPath, store.list(collectionPath)])
+  );
+  return { seed, errors };
+};
+
+/** Read and validate a seed file (YAML or JSON) for `--stateful` mode. */
+export const loadSeedData = async (filePath: string, collections: ResourceCollection[]): Promise<ResourceSeed> => {
+  const { seed, errors } = validateSeedData(await readSeedValue(filePath), collections, filePath);
+  if (!seed) {
+    await attachFileLocations(errors);
+    throw new Error(formatValidationErrors(errors));
+  }
+  return seed;
+};
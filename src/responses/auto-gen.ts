@@ -0,0 +1,96 @@
+import { STATUS_CODES } from 'node:http';
+import { isStatusDeclared } from '../openapi/schema';
+import { ApiRoute } from '../openapi/types';
+import { GeneratedResponse, generateResponseForStatus } from './generator';
+import { ResponsePreference } from './prefer';
+
+export const AUTO_GEN_PREFIX = 'auto-gen-';
+
+/** Offered by the scenario selector even when the spec declares none of them. */
+export const DEFAULT_AUTO_GEN_STATUSES = [400, 401, 403, 404, 408, 409, 422, 429, 500, 502, 503, 504];
+
+/**
+ * Body for auto-gen statuses the operation does not declare. String fields may use
+ * `{status}`, `{reason}`, `{method}` and `{path}`; `status` is always the numeric code.
+ */
+export type ProblemTemplate = Record<string, unknown>;
+
+export const DEFAULT_PROBLEM_TEMPLATE: ProblemTemplate = {
+  type: 'about:blank',
+  title: '{reason}',
+  detail: 'mock-hub auto-gen-{status} for {method} {path}',
+};
+
+const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+export type AutoGenOptions = Pick<ResponsePreference, 'example' | 'dynamic'> & {
+  method: string;
+  path: string;
+  accept?: string;
+  /** Fallback body for undeclared statuses; false sends no body. */
+  problem?: ProblemTemplate | false;
+};
+
+export const parseAutoGenStatus = (scenarioName?: string): number | undefined => {
+  const match = scenarioName?.match(/^auto-gen-(\d{3})$/);
+  if (!match) return undefined;
+  const code = Number(match[1]);
+  return code >= 100 && code <= 599 ? code : undefined;
+};
+
+export const isAutoGenScenario = (scenarioName: string): boolean => parseAutoGenStatus(scenarioName) !== undefined;
+
+/** The default error statuses plus every 4xx/5xx code the spec declares, as scenario names. */
+export const listAutoGenScenarios = (routes: ApiRoute[]): string[] => {
+  const statuses = new Set(DEFAULT_AUTO_GEN_STATUSES);
+  for (const route of routes) {
+    for (const key of Object.keys(route.responses)) {
+      if (/^[45]\d{2}$/.test(key)) statuses.add(Number(key));
+    }
+  }
+  return [...statuses].sort((a, b) => a - b).map((status) => `${AUTO_GEN_PREFIX}${status}`);
+};
+
+const fillPlaceholders = (value: string, values: Record<string, string>): string => {
+  return value.replace(/\{(status|reason|method|path)\}/g, (_match, key: string) => values[key]);
+};
+
+const buildProblem = (template: ProblemTemplate, status: number, options: AutoGenOptions): ProblemTemplate => {
+  const values = {
+    status: String(status),
+    reason: STATUS_CODES[status] ?? 'Unknown Status',
+    method: options.method,
+    path: options.path,
+  };
+  const problem: ProblemTemplate = {};
+  for (const [key, value] of Object.entries(template)) {
+    problem[key] = typeof value === 'string' ? fillPlaceholders(value, values) : value;
+  }
+  return { ...problem, status };
+};
+
+/**
+ * Respond for an `auto-gen-NNN` scenario: the operation's declared response for that
+ * status (example or schema), or a problem+json body when the status is not declared.
+ * A declared response without content stays empty.
+ */
+export const generateAutoGenResponse = (
+  route: ApiRoute | undefined,
+  status: number,
+  options: AutoGenOptions
+): GeneratedResponse => {
+  if (route && isStatusDeclared(route.responses, status)) {
+    const preference = { example: options.example, dynamic: options.dynamic };
+    const generated = generateResponseForStatus(route.responses, status, { ...preference, accept: options.accept });
+    // The status is what the scenario asked for, so an unacceptable Accept still gets the default content.
+    return generated.notAcceptable ? generateResponseForStatus(route.responses, status, preference) : generated;
+  }
+
+  const template = options.problem ?? DEFAULT_PROBLEM_TEMPLATE;
+  if (template === false) return { status };
+  return {
+    status,
+    body: buildProblem({ ...DEFAULT_PROBLEM_TEMPLATE, ...template }, status, options),
+    contentType: PROBLEM_CONTENT_TYPE,
+  };
+};
@@ -1,12 +1,29 @@
 import { OpenAPIV3 } from 'openapi-types';
 import { JSONSchemaFaker } from 'json-schema-faker';
+import { negotiateMediaType, serializeBody } from './media-types';
+import { ResponsePreference } from './prefer';
 
 export type GeneratedResponse = {
   status: number;
   body?: unknown;
   headers?: Record<string, string>;
+  /** Declared media type the body was generated for. */
+  contentType?: string;
+  /** Set, with status 406, when the response declares content but none matches Accept. */
+  notAcceptable?: string[];
+  /** Name of the `content.examples` entry that was sent. */
+  example?: string;
+  /** Example asked for by `Prefer: example=` that the content does not have. */
+  missingExample?: string;
 };
 
+export type GenerateOptions = ResponsePreference & {
+  /** Request Accept header; JSON is preferred when absent. */
+  accept?: string;
+};
+
+const NOT_ACCEPTABLE = 406;
+
 const pickLowestStatus = (responses: OpenAPIV3.ResponsesObject): number => {
   const codes = Object.keys(responses)
     .filter((code) => /^\d{3}$/.test(code))
@@ -41,20 +58,29 @@ const pickResponse = (
   return first;
 };
 
-const pickContent = (response?: OpenAPIV3.ResponseObject): OpenAPIV3.MediaTypeObject | undefined => {
-  if (!response?.content) return undefined;
-  if (response.content['application/json']) return response.content['application/json'];
-  const first = Object.values(response.content)[0];
-  return first;
+// The declared response for a status: exact code first, then its NXX range, then `default`.
+const findDeclaredResponse = (
+  responses: OpenAPIV3.ResponsesObject,
+  status: number
+): OpenAPIV3.ResponseObject | undefined => {
+  const code = String(status);
+  const key =
+    Object.keys(responses).find((candidate) => candidate === code) ??
+    Object.keys(responses).find((candidate) => candidate.toUpperCase() === `${code[0]}XX`) ??
+    (responses.default ? 'default' : undefined);
+  return key ? (responses[key] as OpenAPIV3.ResponseObject) : undefined;
 };
 
-const pickExample = (content?: OpenAPIV3.MediaTypeObject): unknown => {
-  if (!content) return undefined;
-  if (content.example) return content.example;
-  if (content.examples) {
-    const first = Object.values(content.examples)[0] as OpenAPIV3.ExampleObject | undefined;
-    if (first?.value !== undefined) return first.value;
-  }
+type PickedExample = { value: unknown; name?: string };
+
+const pickExample = (content: OpenAPIV3.MediaTypeObject, name?: string): PickedExample | undefined => {
+  const examples = Object.entries(content.examples ?? {}) as Array<[string, OpenAPIV3.ExampleObject]>;
+  const named = name ? examples.find(([key]) => key === name) : undefined;
+  if (named && named[1].value !== undefined) return { value: named[1].value, name: named[0] };
+
+  if (content.example) return { value: content.example };
+  const [first] = examples;
+  if (first && first[1].value !== undefined) return { value: first[1].value, name: first[0] };
   return undefined;
 };
 
@@ -70,18 +96,57 @@ const generateFromSchema = (schema?: OpenAPIV3.SchemaObject | OpenAPIV3.Referenc
   }
 };
 
-export const generateHappyPathResponse = (
-  responses: OpenAPIV3.ResponsesObject
+const generateContent = (
+  status: number,
+  response: OpenAPIV3.ResponseObject | undefined,
+  options: GenerateOptions
 ): GeneratedResponse => {
-  const status = pickHappyPathStatus(responses);
-  const response = pickResponse(responses, status);
-  const content = pickContent(response);
-  const example = pickExample(content);
-  const schema = content?.schema as OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined;
-  const generated = example ?? generateFromSchema(schema);
+  const declared = Object.keys(response?.content ?? {});
+  if (!response?.content || declared.length === 0) return { status };
+
+  const mediaType = negotiateMediaType(options.accept, declared);
+  if (!mediaType) return { status: NOT_ACCEPTABLE, notAcceptable: declared };
+
+  const content = response.content[mediaType];
+  const schema = content.schema as OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined;
+  const example = options.dynamic ? undefined : pickExample(content, options.example);
+  const body = example ? example.value : generateFromSchema(schema);
+  const missingExample = options.example && !options.dynamic && example?.name !== options.example;
 
   return {
     status,
-    body: generated,
+    body: serializeBody(mediaType, body, schema),
+    // A declared range such as text/* names no concrete type to send.
+    ...(mediaType.includes('*') ? {} : { contentType: mediaType }),
+    ...(example?.name ? { example: example.name } : {}),
+    ...(missingExample ? { missingExample: options.example } : {}),
   };
 };
+
+/**
+ * Generate the response for a request that no scenario answered. A preferred `code`
+ * replaces the happy-path status; when that code is not declared it is sent without a body.
+ */
+export const generateHappyPathResponse = (
+  responses: OpenAPIV3.ResponsesObject,
+  options: GenerateOptions = {}
+): GeneratedResponse => {
+  if (options.code !== undefined) {
+    return generateResponseForStatus(responses, options.code, options);
+  }
+  const status = pickHappyPathStatus(responses);
+  return generateContent(status, pickResponse(responses, status), options);
+};
+
+/**
+ * Generate the declared response for a specific status (exact code, `NXX` range or
+ * `default`). Unlike the happy path this never falls back to another status: an
+ * undeclared status yields no body.
+ */
+export const generateResponseForStatus = (
+  responses: OpenAPIV3.ResponsesObject,
+  status: number,
+  options: GenerateOptions = {}
+): GeneratedResponse => {
+  return generateContent(status, findDeclaredResponse(responses, status), options);
+};
@@ -0,0 +1,173 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { isJsonMediaType } from '../openapi/schema';
+
+type Schema = OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined;
+
+type MediaRange = {
+  type: string;
+  subtype: string;
+  q: number;
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+const splitMediaType = (value: string): [string, string] => {
+  const [type = '', subtype = ''] = value.split(';')[0].trim().toLowerCase().split('/');
+  return [type, subtype];
+};
+
+const parseAccept = (accept: string): MediaRange[] => {
+  return accept
+    .split(',')
+    .map((part) => {
+      const [range, ...params] = part.split(';');
+      const [type, subtype] = splitMediaType(range);
+      const qParam = params.map((param) => param.trim().split('=')).find(([key]) => key.toLowerCase() === 'q');
+      const q = qParam ? Number(qParam[1]) : 1;
+      return { type, subtype, q: Number.isFinite(q) ? q : 0 };
+    })
+    .filter((range) => range.type && range.subtype);
+};
+
+// Exact ranges beat type/* which beats */*; -1 means the range does not cover the media type.
+const specificity = (range: MediaRange, mediaType: string): number => {
+  const [type, subtype] = splitMediaType(mediaType);
+  if (range.type === '*' && range.subtype === '*') return 0;
+  if (range.type !== type && type !== '*') return -1;
+  if (range.subtype === '*' || subtype === '*') return 1;
+  return range.subtype === subtype ? 2 : -1;
+};
+
+const qualityOf = (ranges: MediaRange[], mediaType: string): number => {
+  let best: { rank: number; q: number } | undefined;
+  for (const range of ranges) {
+    const rank = specificity(range, mediaType);
+    if (rank >= 0 && (!best || rank > best.rank)) {
+      best = { rank, q: range.q };
+    }
+  }
+  return best?.q ?? 0;
+};
+
+const isXmlMediaType = (mediaType: string): boolean => {
+  const [type, subtype] = splitMediaType(mediaType);
+  return (type === 'application' || type === 'text') && (subtype === 'xml' || subtype.endsWith('+xml'));
+};
+
+/**
+ * Pick the declared media type that best satisfies `accept`, or undefined when none is
+ * acceptable. Without an Accept header JSON wins, then declaration order; the same
+ * order breaks ties between equally acceptable types.
+ */
+export const negotiateMediaType = (accept: string | undefined, declared: string[]): string | undefined => {
+  const preferred = [...declared.filter(isJsonMediaType), ...declared.filter((type) => !isJsonMediaType(type))];
+  const ranges = accept?.trim() ? parseAccept(accept) : [];
+  if (ranges.length === 0) return preferred[0];
+
+  let best: { mediaType: string; q: number } | undefined;
+  for (const mediaType of preferred) {
+    const q = qualityOf(ranges, mediaType);
+    if (q > 0 && (!best || q > best.q)) {
+      best = { mediaType, q };
+    }
+  }
+  return best?.mediaType;
+};
+
+const resolveSchema = (schema: Schema): OpenAPIV3.SchemaObject | undefined => {
+  return schema && !('$ref' in schema) ? schema : undefined;
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toXmlElement = (value: unknown, schema: Schema, fallbackName: string, root = false): string => {
+  const resolved = resolveSchema(schema);
+  const xml = resolved?.xml;
+  const name = `${xml?.prefix ? `${xml.prefix}:` : ''}${xml?.name ?? fallbackName}`;
+
+  if (Array.isArray(value)) {
+    const itemSchema = resolved?.type === 'array' ? resolved.items : undefined;
+    const itemName = resolveSchema(itemSchema)?.xml?.name ?? fallbackName;
+    const items = value.map((item) => toXmlElement(item, itemSchema, itemName)).join('');
+    // A document needs a single root, so top-level arrays are always wrapped.
+    return xml?.wrapped || root ? `<${name}>${items}</${name}>` : items;
+  }
+
+  if (value === null || value === undefined) {
+    return `<${name}/>`;
+  }
+
+  if (typeof value === 'object') {
+    let attributes = '';
+    let children = '';
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+      const propertySchema = resolveSchema(resolved?.properties?.[key]);
+      if (propertySchema?.xml?.attribute) {
+        if (entry === null || entry === undefined) continue;
+        attributes += ` ${propertySchema.xml.name ?? key}="${escapeXml(String(entry))}"`;
+        continue;
+      }
+      children += toXmlElement(entry, propertySchema, key);
+    }
+    return `<${name}${attributes}>${children}</${name}>`;
+  }
+
+  return `<${name}>${escapeXml(String(value))}</${name}>`;
+};
+
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (value: unknown): string => {
+  const rows = (Array.isArray(value) ? value : [value]).filter((row) => row !== undefined);
+  if (!rows.every((row) => typeof row === 'object' && row !== null && !Array.isArray(row))) {
+    return rows.map((row) => (Array.isArray(row) ? row.map(toCsvCell).join(',') : toCsvCell(row))).join('\n');
+  }
+
+  const records = rows as Array<Record<string, unknown>>;
+  const columns = [...new Set(records.flatMap((row) => Object.keys(row)))];
+  const lines = records.map((row) => columns.map((column) => toCsvCell(row[column])).join(','));
+  return [columns.map(toCsvCell).join(','), ...lines].join('\n');
+};
+
+const toFormEncoded = (value: unknown): string => {
+  if (typeof value !== 'object' || value === null) return String(value);
+  const params = new URLSearchParams();
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    for (const item of Array.isArray(entry) ? entry : [entry]) {
+      if (item === null || item === undefined) continue;
+      params.append(key, typeof item === 'object' ? JSON.stringify(item) : String(item));
+    }
+  }
+  return params.toString();
+};
+
+/**
+ * Serialize a generated or example body for its media type. JSON objects and arrays are
+ * left as values for the server to serialize; other JSON values are encoded here, since a
+ * string would otherwise go out raw. Strings for other types, such as a literal XML
+ * example, are sent as they are.
+ */
+export const serializeBody = (mediaType: string, body: unknown, schema?: Schema): unknown => {
+  if (body === undefined) return body;
+  if (isJsonMediaType(mediaType)) {
+    return typeof body === 'object' && body !== null ? body : JSON.stringify(body);
+  }
+  if (typeof body === 'string') return body;
+
+  const [type, subtype] = splitMediaType(mediaType);
+  if (isXmlMediaType(mediaType)) {
+    return `${XML_DECLARATION}${toXmlElement(body, schema, 'root', true)}`;
+  }
+  if (type === 'text' && subtype === 'csv') {
+    return toCsv(body);
+  }
+  if (type === 'application' && subtype === 'x-www-form-urlencoded') {
+    return toFormEncoded(body);
+  }
+  return typeof body === 'object' && body !== null ? JSON.stringify(body) : String(body);
+};
@@ -0,0 +1,37 @@
+/** Per-request choices carried by a Prism-style `Prefer` header. */
+export type ResponsePreference = {
+  /** Respond with this declared status instead of the happy-path one. */
+  code?: number;
+  /** Name of the `content.examples` entry to send. */
+  example?: string;
+  /** Generate from the schema even when examples are declared. */
+  dynamic?: boolean;
+};
+
+const unquote = (value: string): string => value.replace(/^"(.*)"$/, '$1');
+
+/**
+ * Parse `Prefer: code=404, example=notFound, dynamic=true`. Unknown preferences and
+ * malformed values are ignored; undefined means the header asked for nothing.
+ */
+export const parsePreferHeader = (value: string | string[] | undefined): ResponsePreference | undefined => {
+  const raw = Array.isArray(value) ? value.join(',') : value;
+  if (!raw) return undefined;
+
+  const preference: ResponsePreference = {};
+  for (const token of raw.split(/[,;]/)) {
+    const [key, ...rest] = token.split('=');
+    const name = key.trim().toLowerCase();
+    const entry = unquote(rest.join('=').trim());
+
+    if (name === 'code' && /^[1-5]\d{2}$/.test(entry)) {
+      preference.code = Number(entry);
+    } else if (name === 'example' && entry) {
+      preference.example = entry;
+    } else if (name === 'dynamic' && (entry === 'true' || entry === 'false')) {
+      preference.dynamic = entry === 'true';
+    }
+  }
+
+  return Object.keys(preference).length > 0 ? preference : undefined;
+};
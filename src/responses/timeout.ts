@@ -0,0 +1,11 @@
+import { ScenarioTimeout, TimeoutMode } from '../scenarios/types';
+
+export const TIMEOUT_MODES: readonly TimeoutMode[] = ['respond', 'hang', 'destroy', 'reset'];
+
+export type ResolvedTimeout = ScenarioTimeout & { afterMs: number };
+
+/** A bare number keeps its original meaning: wait that long, then answer 504. */
+export const resolveTimeout = (timeout: number | ScenarioTimeout): ResolvedTimeout => {
+  if (typeof timeout === 'number') return { mode: 'respond', afterMs: timeout };
+  return { ...timeout, afterMs: timeout.afterMs ?? 0 };
+};
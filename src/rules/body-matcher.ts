@@ -0,0 +1,147 @@
+import { evaluateValueMatcher, isValueMatcher, validateValueMatcher } from './operators';
+
+/**
+ * `match.body`: plain keys are compared by partial deep equality; keys starting with
+ * `$` (JSONPath) or `/` (JSON pointer) select values to compare with a literal or an
+ * operator object.
+ */
+export type BodyMatch = Record<string, unknown>;
+
+type PathToken = string | number | '*';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isExpression = (key: string): boolean => key.startsWith('$') || key.startsWith('/');
+
+const escapePointer = (key: string | number): string => String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+
+// Supports $, .name, .*, [n], [*] and ['name'] / ["name"]; undefined for anything else.
+const parseJsonPath = (expression: string): PathToken[] | undefined => {
+  if (!expression.startsWith('$')) return undefined;
+  const tokens: PathToken[] = [];
+  const pattern = /\.([A-Za-z_$][\w$-]*)|\.\*|\[(\d+)\]|\[\*\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+  pattern.lastIndex = 1;
+
+  while (pattern.lastIndex < expression.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(expression);
+    if (!match || match.index !== start) return undefined;
+    if (match[1] !== undefined) tokens.push(match[1]);
+    else if (match[2] !== undefined) tokens.push(Number(match[2]));
+    else if (match[3] !== undefined) tokens.push(match[3]);
+    else if (match[4] !== undefined) tokens.push(match[4]);
+    else tokens.push('*');
+  }
+  return tokens;
+};
+
+const parseJsonPointer = (pointer: string): string[] => {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const select = (value: unknown, tokens: PathToken[]): unknown[] => {
+  let current: unknown[] = [value];
+  for (const token of tokens) {
+    const next: unknown[] = [];
+    for (const entry of current) {
+      if (token === '*') {
+        if (Array.isArray(entry)) next.push(...entry);
+        else if (isPlainObject(entry)) next.push(...Object.values(entry));
+      } else if (Array.isArray(entry)) {
+        const index = typeof token === 'number' ? token : /^\d+$/.test(token) ? Number(token) : -1;
+        if (index >= 0 && index < entry.length) next.push(entry[index]);
+      } else if (isPlainObject(entry) && Object.prototype.hasOwnProperty.call(entry, token)) {
+        next.push(entry[token]);
+      }
+    }
+    current = next;
+  }
+  return current;
+};
+
+const selectExpression = (expression: string, body: unknown): unknown[] => {
+  if (expression.startsWith('/')) return select(body, parseJsonPointer(expression));
+  return select(body, parseJsonPath(expression) ?? []);
+};
+
+// Objects match when every expected key matches; arrays need the same length.
+const partialMismatch = (expected: unknown, actual: unknown, pointer: string): string | undefined => {
+  if (isPlainObject(expected)) {
+    if (!isPlainObject(actual)) return pointer || '/';
+    for (const [key, entry] of Object.entries(expected)) {
+      const childPointer = `${pointer}/${escapePointer(key)}`;
+      if (!(key in actual)) return childPointer;
+      const mismatch = partialMismatch(entry, actual[key], childPointer);
+      if (mismatch) return mismatch;
+    }
+    return undefined;
+  }
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) return pointer || '/';
+    for (const [index, entry] of expected.entries()) {
+      const mismatch = partialMismatch(entry, actual[index], `${pointer}/${index}`);
+      if (mismatch) return mismatch;
+    }
+    return undefined;
+  }
+  return Object.is(expected, actual) ? undefined : pointer || '/';
+};
+
+// Bodies that were not parsed as JSON (e.g. text/plain) are parsed here when possible.
+const toJson = (body: unknown): unknown => {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * Why the request body does not satisfy `match.body`, or undefined when it does. Without
+ * a body every expression selects nothing, so `absent` and `exists: false` still match.
+ */
+export const bodyMismatchReason = (match: BodyMatch, body: unknown): string | undefined => {
+  const json = toJson(body);
+  const missing = json === undefined || json === null || json === '';
+
+  const partial: Record<string, unknown> = {};
+  for (const [key, expected] of Object.entries(match)) {
+    if (!isExpression(key)) {
+      partial[key] = expected;
+      continue;
+    }
+    const values = missing ? [] : selectExpression(key, json);
+    const reason = isValueMatcher(expected)
+      ? evaluateValueMatcher(expected, values)
+      : evaluateValueMatcher({ equals: expected }, values);
+    if (reason) return missing ? 'body missing' : `body ${key} ${reason}`;
+  }
+
+  if (Object.keys(partial).length === 0) return undefined;
+  if (missing) return 'body missing';
+  const mismatch = partialMismatch(partial, json, '');
+  return mismatch ? `body mismatch at ${mismatch}` : undefined;
+};
+
+/** Problems with a `match.body` block, keyed by the offending entry. */
+export const validateBodyMatch = (match: BodyMatch): Array<{ key: string; message: string }> => {
+  const issues: Array<{ key: string; message: string }> = [];
+  for (const [key, expected] of Object.entries(match)) {
+    if (!isExpression(key)) continue;
+    if (key.startsWith('$') && !parseJsonPath(key)) {
+      issues.push({ key, message: `"${key}" is not a supported JSONPath expression` });
+      continue;
+    }
+    // Objects under an expression key are operator objects; compare literal objects with `equals`.
+    if (isPlainObject(expected)) {
+      for (const message of validateValueMatcher(expected)) issues.push({ key, message });
+    }
+  }
+  return issues;
+};
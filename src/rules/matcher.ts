@@ -1,15 +1,27 @@
-import { ScenarioMatch, ScenarioRule } from '../scenarios/types';
+import { ApiRoute } from '../openapi/types';
+import { ScenarioCondition, ScenarioMatch, ScenarioRule, ScenarioValue } from '../scenarios/types';
+import { escapeRegex, matchPathTemplate, safeDecode } from '../utils/path';
+import { bodyMismatchReason } from './body-matcher';
+import { evaluateValueMatcher, isValueMatcher, toTextMatcher } from './operators';
 
 export type RequestContext = {
   method: string;
   path: string;
   headers: Record<string, string | string[] | undefined>;
   query: Record<string, unknown>;
+  /** Parsed request body; `match.body` rules need it. */
+  body?: unknown;
+  /** Spec operation the request resolved to; operationId and tags rules need it. */
+  route?: ApiRoute;
+  /** Current state of the scenario; `match.state` rules need it. */
+  state?: string;
 };
 
 export type RuleEvaluation = {
   matched: boolean;
   reason?: string;
+  /** Path parameters of a matched rule, from `match.path` or the operation's path. */
+  params?: Record<string, string>;
 };
 
 const normalizeHeaderKey = (key: string): string => key.toLowerCase();
@@ -21,49 +33,142 @@ const normalizePathSegment = (value: string): string => {
   return value;
 };
 
-const matchesPath = (pattern: string, actual: string): boolean => {
-  if (pattern === actual) return true;
-  if (!pattern.includes('*')) return false;
+type CompiledPathPattern = {
+  regex: RegExp;
+  params: string[];
+};
 
-  const [start, end] = pattern.split('*');
-  const normalizedStart = normalizePathSegment(start);
-  const normalizedActual = normalizePathSegment(actual);
+const PARAM_NAME = /^[A-Za-z0-9_.-]+$/;
 
-  const startsOk = normalizedStart
-    ? normalizedActual === normalizedStart || normalizedActual.startsWith(`${normalizedStart}/`)
-    : true;
-  const endsOk = end ? normalizedActual.endsWith(end) : true;
-  return startsOk && endsOk;
+// A trailing /* has always matched the rest of the path, so it keeps meaning /**.
+const toSegments = (pattern: string): string[] => {
+  const segments = normalizePathSegment(pattern).split('/').slice(1);
+  if (segments.length > 0 && segments[segments.length - 1] === '*') {
+    segments[segments.length - 1] = '**';
+  }
+  return segments;
 };
 
-const matchesMethod = (match: ScenarioMatch, method: string): boolean => {
-  if (!match.method) return true;
-  return match.method.toUpperCase() === method.toUpperCase();
+const compileSegment = (segment: string, params: string[]): string => {
+  return segment
+    .split(/({[^}]*})/)
+    .map((part) => {
+      const param = /^{([^}]*)}$/.exec(part);
+      if (param) {
+        params.push(param[1]);
+        return '([^/]+)';
+      }
+      return part.split('*').map(escapeRegex).join('[^/]*');
+    })
+    .join('');
 };
 
-const matchesHeaders = (match: ScenarioMatch, headers: RequestContext['headers']): boolean => {
-  if (!match.headers) return true;
+const compiledPatterns = new Map<string, CompiledPathPattern>();
 
-  const normalizedHeaders = Object.fromEntries(
-    Object.entries(headers).map(([key, value]) => [normalizeHeaderKey(key), value])
-  );
+const compilePathPattern = (pattern: string): CompiledPathPattern => {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) return cached;
 
-  return Object.entries(match.headers).every(([key, value]) => {
-    const headerValue = normalizedHeaders[normalizeHeaderKey(key)];
-    if (value === undefined || value === null) {
-      return headerValue !== undefined;
-    }
+  const params: string[] = [];
+  const segments = toSegments(pattern);
+  const source = segments
+    .map((segment, index) => {
+      if (segment === '**') return '(?:/[^/]+)*';
+      // A * ending the pattern inside a segment (`/contracts*`) has always matched the rest of the path.
+      if (index === segments.length - 1 && segment.endsWith('*')) {
+        return `/${compileSegment(segment.slice(0, -1), params)}.*`;
+      }
+      return `/${compileSegment(segment, params)}`;
+    })
+    .join('');
+  const compiled = { regex: new RegExp(`^${source || '/'}$`), params };
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+};
 
-    if (Array.isArray(headerValue)) {
-      return headerValue.includes(value);
+/**
+ * Describe what is wrong with a `match.path` pattern, or undefined when it is valid.
+ * `**` must be a whole segment; `{param}` names must be unique.
+ */
+export const validatePathPattern = (pattern: string): string | undefined => {
+  const names = new Set<string>();
+  for (const segment of toSegments(pattern)) {
+    if (segment.includes('**') && segment !== '**') {
+      return '** must be a whole path segment';
+    }
+    const withoutParams = segment.replace(/{[^{}]*}/g, '');
+    if (withoutParams.includes('{') || withoutParams.includes('}')) {
+      return `unbalanced braces in path segment "${segment}"`;
     }
+    for (const [, name] of segment.matchAll(/{([^{}]*)}/g)) {
+      if (!PARAM_NAME.test(name)) return `invalid path parameter name "{${name}}"`;
+      if (names.has(name)) return `path parameter "{${name}}" is used more than once`;
+      names.add(name);
+    }
+  }
+  return undefined;
+};
+
+/** Names of the `{param}` segments in a `match.path` pattern. */
+export const pathPatternParams = (pattern: string): string[] => compilePathPattern(pattern).params;
+
+/**
+ * Match a request path against a rule path: literal segments, `{param}` (one segment,
+ * captured), `*` (any characters within one segment) and `**` (any number of segments).
+ * Returns the decoded params, or undefined when the path does not match.
+ */
+export const matchPathPattern = (pattern: string, actual: string): Record<string, string> | undefined => {
+  const { regex, params } = compilePathPattern(pattern);
+  const normalized = normalizePathSegment(actual);
+  // `/**` also covers the root, which has no segments at all.
+  const match = regex.exec(normalized) ?? (normalized === '/' ? regex.exec('') : null);
+  if (!match) return undefined;
+  return Object.fromEntries(params.map((name, index) => [name, safeDecode(match[index + 1])]));
+};
+
+export const matchesPath = (pattern: string, actual: string): boolean => {
+  if (pattern === actual) return true;
+  return matchPathPattern(pattern, actual) !== undefined;
+};
+
+const paramsMismatchReason = (match: ScenarioMatch, params: Record<string, string>): string | undefined => {
+  if (!match.params) return undefined;
+  for (const [key, expected] of Object.entries(match.params)) {
+    if (params[key] === undefined) return `param ${key} missing`;
+    if (params[key] !== String(expected)) return `param ${key} mismatch`;
+  }
+  return undefined;
+};
 
-    return String(headerValue) === value;
-  });
+const matchesMethod = (match: ScenarioCondition, method: string): boolean => {
+  if (!match.method) return true;
+  return match.method.toUpperCase() === method.toUpperCase();
+};
+
+const toValues = (value: unknown): unknown[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+// Literals compare as strings against any of the values; null only requires presence.
+const valueMismatchReason = (
+  kind: 'header' | 'query',
+  key: string,
+  expected: ScenarioValue | null | undefined,
+  actual: unknown
+): string | undefined => {
+  const values = toValues(actual);
+  if (isValueMatcher(expected)) {
+    const reason = evaluateValueMatcher(toTextMatcher(expected), values);
+    return reason ? `${kind} ${key} ${reason}` : undefined;
+  }
+  if (values.length === 0) return `${kind} ${key} missing`;
+  if (expected === undefined || expected === null) return undefined;
+  return values.some((value) => String(value) === String(expected)) ? undefined : `${kind} ${key} mismatch`;
 };
 
 const headerMismatchReason = (
-  match: ScenarioMatch,
+  match: ScenarioCondition,
   headers: RequestContext['headers']
 ): string | undefined => {
   if (!match.headers) return undefined;
@@ -73,106 +178,169 @@ const headerMismatchReason = (
   );
 
   for (const [key, expected] of Object.entries(match.headers)) {
-    const actual = normalizedHeaders[normalizeHeaderKey(key)];
-
-    if (expected === undefined || expected === null) {
-      if (actual === undefined) {
-        return `header ${key} missing`;
-      }
-      continue;
-    }
-
-    if (actual === undefined) {
-      return `header ${key} missing`;
-    }
-
-    if (Array.isArray(actual)) {
-      if (!actual.includes(expected)) {
-        return `header ${key} mismatch`;
-      }
-      continue;
-    }
-
-    if (String(actual) !== expected) {
-      return `header ${key} mismatch`;
-    }
+    const reason = valueMismatchReason('header', key, expected, normalizedHeaders[normalizeHeaderKey(key)]);
+    if (reason) return reason;
   }
-
   return undefined;
 };
 
-const matchesQuery = (match: ScenarioMatch, query: RequestContext['query']): boolean => {
-  if (!match.query) return true;
-  return Object.entries(match.query).every(([key, value]) => {
-    const actual = query[key];
-    if (actual === undefined || actual === null) return false;
-    return String(actual) === String(value);
-  });
-};
-
-const queryMismatchReason = (match: ScenarioMatch, query: RequestContext['query']): string | undefined => {
+const queryMismatchReason = (match: ScenarioCondition, query: RequestContext['query']): string | undefined => {
   if (!match.query) return undefined;
-  for (const [key, value] of Object.entries(match.query)) {
-    const actual = query[key];
-    if (actual === undefined || actual === null) {
-      return `query ${key} missing`;
-    }
-    if (String(actual) !== String(value)) {
-      return `query ${key} mismatch`;
-    }
+  for (const [key, expected] of Object.entries(match.query)) {
+    const reason = valueMismatchReason('query', key, expected, query[key]);
+    if (reason) return reason;
   }
   return undefined;
 };
 
-const scoreMatchSpecificity = (match: ScenarioMatch): number => {
+const scoreCondition = (condition: ScenarioCondition): number => {
   let score = 0;
 
-  if (match.path) {
-    score += match.path.includes('*') ? 1 : 10;
-    score += match.path.split('/').filter(Boolean).length;
+  if (condition.path) {
+    const segments = toSegments(condition.path).filter(Boolean);
+    const isExact = !condition.path.includes('*') && !condition.path.includes('{');
+    score += isExact ? 10 : 1;
+    // Literal and {param} segments count; wildcard segments do not.
+    score += segments.filter((segment) => !segment.includes('*')).length;
   }
 
-  if (match.method) {
+  if (condition.method) {
     score += 5;
   }
 
-  if (match.headers) {
-    score += Object.keys(match.headers).length * 2;
+  if (condition.headers) {
+    score += Object.keys(condition.headers).length * 2;
+  }
+
+  if (condition.query) {
+    score += Object.keys(condition.query).length * 3;
+  }
+
+  if (condition.body) {
+    score += Object.keys(condition.body).length * 3;
+  }
+
+  // allOf narrows by all of its blocks, anyOf only by its least specific one.
+  if (condition.allOf) {
+    score += condition.allOf.reduce((total, block) => total + scoreCondition(block), 0);
   }
 
-  if (match.query) {
-    score += Object.keys(match.query).length * 3;
+  if (condition.anyOf && condition.anyOf.length > 0) {
+    score += Math.min(...condition.anyOf.map(scoreCondition));
+  }
+
+  // Excluding requests narrows the rule a little, however detailed the excluded block is.
+  if (condition.not) {
+    score += 1;
   }
 
   return score;
 };
 
+export const scoreMatchSpecificity = (match: ScenarioMatch): number => {
+  let score = scoreCondition(match);
+
+  if (match.operationId) {
+    score += 15;
+  }
+
+  if (match.tags) {
+    score += 2;
+  }
+
+  if (match.params) {
+    score += Object.keys(match.params).length * 3;
+  }
+
+  if (match.state !== undefined) {
+    score += 5;
+  }
+
+  return score;
+};
+
+// Method, header, query, body and nested blocks; `match.path` is checked by the caller.
+const conditionMismatchReason = (condition: ScenarioCondition, request: RequestContext): string | undefined => {
+  if (!matchesMethod(condition, request.method)) {
+    return `method mismatch`;
+  }
+
+  const headerReason = headerMismatchReason(condition, request.headers);
+  if (headerReason) {
+    return headerReason;
+  }
+
+  const queryReason = queryMismatchReason(condition, request.query);
+  if (queryReason) {
+    return queryReason;
+  }
+
+  const bodyReason = condition.body && bodyMismatchReason(condition.body, request.body);
+  if (bodyReason) {
+    return bodyReason;
+  }
+
+  for (const [index, block] of (condition.allOf ?? []).entries()) {
+    const reason = nestedMismatchReason(block, request);
+    if (reason) return `allOf[${index}]: ${reason}`;
+  }
+
+  if (condition.anyOf) {
+    const reasons = condition.anyOf.map((block) => nestedMismatchReason(block, request));
+    if (reasons.every(Boolean)) {
+      return `anyOf: ${reasons.map((reason, index) => `[${index}] ${reason}`).join('; ')}`;
+    }
+  }
+
+  if (condition.not && !nestedMismatchReason(condition.not, request)) {
+    return 'not: excluded condition matched';
+  }
+
+  return undefined;
+};
+
+const nestedMismatchReason = (condition: ScenarioCondition, request: RequestContext): string | undefined => {
+  if (condition.path !== undefined && !matchesPath(condition.path, request.path)) {
+    return 'path mismatch';
+  }
+  return conditionMismatchReason(condition, request);
+};
+
 const evaluateRule = (rule: ScenarioRule, request: RequestContext): RuleEvaluation => {
   const { match } = rule;
 
-  if (!matchesPath(match.path, request.path)) {
-    return { matched: false, reason: `path mismatch` };
+  const operation = request.route?.operation;
+  if (match.operationId !== undefined && operation?.operationId !== match.operationId) {
+    return { matched: false, reason: 'operationId mismatch' };
+  }
+
+  if (match.tags && !match.tags.some((tag) => operation?.tags?.includes(tag))) {
+    return { matched: false, reason: 'tags mismatch' };
   }
 
-  if (!matchesMethod(match, request.method)) {
-    return { matched: false, reason: `method mismatch` };
+  // Without a rule path, params come from the operation's own path template.
+  const params =
+    match.path === undefined
+      ? (request.route && matchPathTemplate(request.route.path, request.path)) || {}
+      : match.path === request.path
+        ? {}
+        : matchPathPattern(match.path, request.path);
+  if (!params) {
+    return { matched: false, reason: `path mismatch` };
   }
 
-  if (!matchesHeaders(match, request.headers)) {
-    return {
-      matched: false,
-      reason: headerMismatchReason(match, request.headers) ?? 'header mismatch',
-    };
+  const paramsReason = paramsMismatchReason(match, params);
+  if (paramsReason) {
+    return { matched: false, reason: paramsReason };
   }
 
-  if (!matchesQuery(match, request.query)) {
-    return {
-      matched: false,
-      reason: queryMismatchReason(match, request.query) ?? 'query mismatch',
-    };
+  const states = match.state === undefined ? undefined : [match.state].flat();
+  if (states && (request.state === undefined || !states.includes(request.state))) {
+    return { matched: false, reason: `state mismatch (current: ${request.state ?? 'none'})` };
   }
 
-  return { matched: true };
+  const reason = conditionMismatchReason(match, request);
+  return reason ? { matched: false, reason } : { matched: true, params };
 };
 
 export type RuleEvaluationObserver = (input: {
@@ -184,6 +352,15 @@ export type RuleEvaluationObserver = (input: {
 export type MatchingRule = {
   rule: ScenarioRule;
   ruleIndex: number;
+  params: Record<string, string>;
+};
+
+/**
+ * Order two matching rules: an explicit `priority` (default 0) decides first, then
+ * specificity. Positive when `a` wins; on 0 the rule listed first wins.
+ */
+export const compareRules = (a: ScenarioRule, b: ScenarioRule): number => {
+  return (a.priority ?? 0) - (b.priority ?? 0) || scoreMatchSpecificity(a.match) - scoreMatchSpecificity(b.match);
 };
 
 export const findMatchingRule = (
@@ -192,7 +369,6 @@ export const findMatchingRule = (
   observer?: RuleEvaluationObserver
 ): MatchingRule | undefined => {
   let bestMatch: MatchingRule | undefined;
-  let bestScore = -1;
 
   for (const [index, rule] of rules.entries()) {
     const result = evaluateRule(rule, request);
@@ -202,10 +378,8 @@ export const findMatchingRule = (
       continue;
     }
 
-    const score = scoreMatchSpecificity(rule.match);
-    if (score > bestScore) {
-      bestMatch = { rule, ruleIndex: index };
-      bestScore = score;
+    if (!bestMatch || compareRules(rule, bestMatch.rule) > 0) {
+      bestMatch = { rule, ruleIndex: index, params: result.params ?? {} };
     }
   }
 
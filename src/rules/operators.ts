@@ -0,0 +1,206 @@
+/** Operator object used wherever a rule compares a single request value. */
+export type ValueMatcher = {
+  equals?: unknown;
+  exists?: boolean;
+  /** Shorthand for `exists: false`. */
+  absent?: boolean;
+  regex?: string;
+  contains?: string;
+  startsWith?: string;
+  in?: unknown[];
+  /** Alias of `in`. */
+  oneOf?: unknown[];
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  /** Compare strings (and regexes) case-insensitively. */
+  ignoreCase?: boolean;
+};
+
+export const VALUE_OPERATORS = [
+  'equals',
+  'exists',
+  'absent',
+  'regex',
+  'contains',
+  'startsWith',
+  'in',
+  'oneOf',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'ignoreCase',
+] as const;
+
+const BOOLEAN_OPERATORS = new Set(['exists', 'absent', 'ignoreCase']);
+const LIST_OPERATORS = new Set(['in', 'oneOf']);
+const STRING_OPERATORS = new Set(['regex', 'contains', 'startsWith']);
+
+const COMPARISONS = {
+  gt: { symbol: '>', test: (actual: number, limit: number) => actual > limit },
+  gte: { symbol: '>=', test: (actual: number, limit: number) => actual >= limit },
+  lt: { symbol: '<', test: (actual: number, limit: number) => actual < limit },
+  lte: { symbol: '<=', test: (actual: number, limit: number) => actual <= limit },
+} as const;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/** True for a non-empty object whose keys are all operators. */
+export const isValueMatcher = (value: unknown): value is ValueMatcher => {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => (VALUE_OPERATORS as readonly string[]).includes(key));
+};
+
+/** Deep equality for JSON values; object key order does not matter. */
+export const jsonEquals = (expected: unknown, actual: unknown, ignoreCase = false): boolean => {
+  if (Object.is(expected, actual)) return true;
+  if (ignoreCase && typeof expected === 'string' && typeof actual === 'string') {
+    return expected.toLowerCase() === actual.toLowerCase();
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      expected.length === actual.length &&
+      expected.every((entry, index) => jsonEquals(entry, actual[index], ignoreCase))
+    );
+  }
+  if (isPlainObject(expected)) {
+    if (!isPlainObject(actual)) return false;
+    const keys = Object.keys(expected);
+    return (
+      keys.length === Object.keys(actual).length &&
+      keys.every((key) => key in actual && jsonEquals(expected[key], actual[key], ignoreCase))
+    );
+  }
+  return false;
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return undefined;
+};
+
+const describe = (value: unknown): string => JSON.stringify(value) ?? String(value);
+
+const toText = (value: unknown): unknown => {
+  return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+};
+
+/**
+ * Header and query values are always strings, so numbers and booleans given to `equals`,
+ * `in` and `oneOf` (e.g. an unquoted YAML `1`) are compared in string form.
+ */
+export const toTextMatcher = (matcher: ValueMatcher): ValueMatcher => ({
+  ...matcher,
+  ...('equals' in matcher ? { equals: toText(matcher.equals) } : {}),
+  ...(Array.isArray(matcher.in) ? { in: matcher.in.map(toText) } : {}),
+  ...(Array.isArray(matcher.oneOf) ? { oneOf: matcher.oneOf.map(toText) } : {}),
+});
+
+/**
+ * Check the values found for one request field against an operator object. Several
+ * values (a repeated header, a JSONPath wildcard) pass when any of them passes.
+ * Returns why the check failed, or undefined when it passed.
+ */
+export const evaluateValueMatcher = (matcher: ValueMatcher, values: unknown[]): string | undefined => {
+  const present = values.filter((value) => value !== undefined);
+  const ignoreCase = matcher.ignoreCase === true;
+  const exists = matcher.absent !== undefined ? !matcher.absent : matcher.exists;
+
+  if (exists !== undefined) {
+    if (exists && present.length === 0) return 'missing';
+    if (!exists && present.length > 0) return 'present';
+    if (!exists) return undefined;
+  }
+
+  const fold = (value: string): string => (ignoreCase ? value.toLowerCase() : value);
+  const isScalar = (value: unknown): boolean => typeof value !== 'object';
+
+  const checks: Array<[string, (value: unknown) => boolean]> = [];
+  if ('equals' in matcher) {
+    checks.push([`not equal to ${describe(matcher.equals)}`, (value) => jsonEquals(matcher.equals, value, ignoreCase)]);
+  }
+  if (matcher.regex !== undefined) {
+    const regex = new RegExp(matcher.regex, ignoreCase ? 'i' : undefined);
+    checks.push([`does not match /${matcher.regex}/`, (value) => isScalar(value) && regex.test(String(value))]);
+  }
+  if (matcher.contains !== undefined) {
+    const needle = fold(matcher.contains);
+    checks.push([
+      `does not contain ${describe(matcher.contains)}`,
+      (value) => isScalar(value) && fold(String(value)).includes(needle),
+    ]);
+  }
+  if (matcher.startsWith !== undefined) {
+    const prefix = fold(matcher.startsWith);
+    checks.push([
+      `does not start with ${describe(matcher.startsWith)}`,
+      (value) => isScalar(value) && fold(String(value)).startsWith(prefix),
+    ]);
+  }
+  for (const operator of ['in', 'oneOf'] as const) {
+    const options = matcher[operator];
+    if (options === undefined) continue;
+    checks.push([
+      `not ${operator === 'in' ? 'in' : 'one of'} ${describe(options)}`,
+      (value) => options.some((option) => jsonEquals(option, value, ignoreCase)),
+    ]);
+  }
+  for (const [operator, comparison] of Object.entries(COMPARISONS)) {
+    const limit = matcher[operator as keyof typeof COMPARISONS];
+    if (limit === undefined) continue;
+    checks.push([
+      `not ${comparison.symbol} ${limit}`,
+      (value) => {
+        const actual = toNumber(value);
+        return actual !== undefined && comparison.test(actual, limit);
+      },
+    ]);
+  }
+
+  if (checks.length === 0) return undefined;
+  if (present.length === 0) return 'missing';
+
+  for (const [reason, check] of checks) {
+    if (!present.some(check)) return reason;
+  }
+  return undefined;
+};
+
+/** Describe what is wrong with an operator object; empty when it is valid. */
+export const validateValueMatcher = (matcher: Record<string, unknown>): string[] => {
+  if (Object.keys(matcher).length === 0) return ['operator object must not be empty'];
+  const issues: string[] = [];
+  for (const [operator, value] of Object.entries(matcher)) {
+    if (!(VALUE_OPERATORS as readonly string[]).includes(operator)) {
+      issues.push(`unknown operator "${operator}" (expected one of ${VALUE_OPERATORS.join(', ')})`);
+    } else if (BOOLEAN_OPERATORS.has(operator) && typeof value !== 'boolean') {
+      issues.push(`"${operator}" must be a boolean`);
+    } else if (LIST_OPERATORS.has(operator) && !Array.isArray(value)) {
+      issues.push(`"${operator}" must be a list`);
+    } else if (operator in COMPARISONS && (typeof value !== 'number' || !Number.isFinite(value))) {
+      issues.push(`"${operator}" must be a number`);
+    } else if (STRING_OPERATORS.has(operator) && typeof value !== 'string') {
+      issues.push(`"${operator}" must be a string`);
+    } else if (operator === 'regex') {
+      try {
+        new RegExp(value as string);
+      } catch {
+        issues.push(`"regex" is not a valid regular expression: ${value}`);
+      }
+    }
+  }
+  if (matcher.exists !== undefined && matcher.absent !== undefined) {
+    issues.push('use either "exists" or "absent", not both');
+  }
+  if (Object.keys(matcher).every((key) => key === 'ignoreCase')) {
+    issues.push('"ignoreCase" needs another operator');
+  }
+  return issues;
+};
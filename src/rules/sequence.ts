@@ -0,0 +1,37 @@
+import { ScenarioRespond, ScenarioRule, SequenceMode } from '../scenarios/types';
+
+export const SEQUENCE_MODES = ['stick-on-last', 'cycle'] as const;
+
+export const DEFAULT_SEQUENCE_MODE: SequenceMode = 'stick-on-last';
+
+/** The responses of a rule in order; a single `respond` is a one-step sequence. */
+export const responseSteps = (rule: Pick<ScenarioRule, 'respond'>): ScenarioRespond[] => {
+  return Array.isArray(rule.respond) ? rule.respond : [rule.respond];
+};
+
+/** Where a step lives in the rule, for validation messages: `respond` or `respond[i]`. */
+export const stepPath = (rule: Pick<ScenarioRule, 'respond'>, index: number): string => {
+  return Array.isArray(rule.respond) ? `respond[${index}]` : 'respond';
+};
+
+/**
+ * Index of the step that answers the `call`-th matching request (0-based). Each step
+ * answers `repeat` calls in a row; after the last one the sequence either keeps
+ * answering with it or starts over.
+ */
+export const stepForCall = (
+  steps: ScenarioRespond[],
+  call: number,
+  mode: SequenceMode = DEFAULT_SEQUENCE_MODE
+): number => {
+  const counts = steps.map((step) => step.repeat ?? 1);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (call >= total && mode === 'stick-on-last') return steps.length - 1;
+
+  let remaining = call % total;
+  for (const [index, count] of counts.entries()) {
+    if (remaining < count) return index;
+    remaining -= count;
+  }
+  return steps.length - 1;
+};
@@ -0,0 +1,198 @@
+import fs from 'node:fs/promises';
+import { STATUS_CODES } from 'node:http';
+import path from 'node:path';
+import { stringify } from 'yaml';
+import { isJsonMediaType } from '../openapi/schema';
+import { ApiRoute } from '../openapi/types';
+import { generateResponseForStatus } from '../responses/generator';
+import { HttpMethod, ScenarioFile, ScenarioRule } from '../scenarios/types';
+import { escapeTemplates } from '../templating';
+
+export type ScaffoldOptions = {
+  routes: ApiRoute[];
+  outputDir: string;
+  specPath?: string;
+  force?: boolean;
+};
+
+export type ScaffoldedScenario = {
+  scenario: string;
+  status: number;
+  file: string;
+  rules: number;
+};
+
+export type ScaffoldResult = {
+  scenarios: ScaffoldedScenario[];
+  files: string[];
+};
+
+const SCENARIOS_DIR = 'scenarios';
+const RESPONSES_DIR = 'responses';
+
+// Non-JSON bodies are written verbatim; the server sends body files that are not JSON as text.
+const extensionFor = (contentType?: string): string => {
+  if (!contentType || isJsonMediaType(contentType)) return 'json';
+  if (/xml/.test(contentType)) return 'xml';
+  if (contentType === 'text/csv') return 'csv';
+  return 'txt';
+};
+
+const toPascalCase = (value: string): string => {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => `${part[0].toUpperCase()}${part.slice(1).toLowerCase()}`)
+    .join('');
+};
+
+const toKebabCase = (value: string): string => {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+const statusLabel = (status: number): string => STATUS_CODES[status] ?? 'Status';
+
+const scenarioNameFor = (status: number): string => `Http${status}${toPascalCase(statusLabel(status))}`;
+
+// Rule paths accept OpenAPI templates as they are; a parameter name the rule syntax
+// cannot express becomes a `*` wildcard instead.
+export const toRulePath = (routePath: string): string => {
+  return routePath.replace(/{([^}]*)}/g, (param, name: string) => (/^[A-Za-z0-9_.-]+$/.test(name) ? param : '*'));
+};
+
+const ruleIdFor = (route: ApiRoute, status: number): string => {
+  const base = route.operation.operationId
+    ? toKebabCase(route.operation.operationId)
+    : `${route.method.toLowerCase()}-${toKebabCase(route.path) || 'root'}`;
+  return `${base}-${status}`;
+};
+
+const collectErrorStatuses = (routes: ApiRoute[]): Map<number, ApiRoute[]> => {
+  const byStatus = new Map<number, ApiRoute[]>();
+
+  for (const route of routes) {
+    for (const key of Object.keys(route.responses)) {
+      if (!/^\d{3}$/.test(key) || key.startsWith('2')) continue;
+      const status = Number(key);
+      byStatus.set(status, [...(byStatus.get(status) ?? []), route]);
+    }
+  }
+
+  return new Map([...byStatus.entries()].sort(([a], [b]) => a - b));
+};
+
+const ensureWritableDir = async (outputDir: string, force?: boolean): Promise<void> => {
+  try {
+    const entries = await fs.readdir(outputDir);
+    if (entries.length > 0 && !force) {
+      throw new Error(`Output directory "${outputDir}" is not empty (use --force to overwrite)`);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+};
+
+const buildReadme = (scenarios: ScaffoldedScenario[], specPath?: string): string => {
+  const rows = scenarios.map(
+    (entry) => `| ${entry.status} | \`${entry.scenario}\` | ${entry.rules} | [${entry.file}](${entry.file}) |`
+  );
+  const source = specPath ? ` from \`${specPath}\`` : '';
+  const example = scenarios[0]?.scenario ?? 'Http500InternalServerError';
+
+  return [
+    '# Generated scenarios',
+    '',
+    `Generated by \`mock-hub init\`${source}. Each scenario makes every operation that declares the status respond with it; bodies come from the spec examples or are generated from the response schema.`,
+    '',
+    '| Status | Scenario | Rules | File |',
+    '| :--- | :--- | :--- | :--- |',
+    ...rows,
+    '',
+    'Response bodies live in `responses/`. Edit them freely; they are regular scenario files from here on.',
+    '',
+    '```bash',
+    `npx mock-hub run --spec <spec> --source ${SCENARIOS_DIR} --scenario ${example}`,
+    '```',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Generate a starter scenario directory with one scenario per declared non-2xx status.
+ */
+export const scaffoldScenarios = async (options: ScaffoldOptions): Promise<ScaffoldResult> => {
+  await ensureWritableDir(options.outputDir, options.force);
+
+  const scenariosDir = path.join(options.outputDir, SCENARIOS_DIR);
+  const responsesDir = path.join(options.outputDir, RESPONSES_DIR);
+  const files: string[] = [];
+  const scenarios: ScaffoldedScenario[] = [];
+
+  await fs.mkdir(scenariosDir, { recursive: true });
+
+  for (const [status, routes] of collectErrorStatuses(options.routes)) {
+    const usedIds = new Set<string>();
+    const rules: ScenarioRule[] = [];
+
+    for (const route of routes) {
+      let id = ruleIdFor(route, status);
+      for (let counter = 2; usedIds.has(id); counter += 1) {
+        id = `${ruleIdFor(route, status)}-${counter}`;
+      }
+      usedIds.add(id);
+
+      const generated = generateResponseForStatus(route.responses, status);
+      const extension = extensionFor(generated.contentType);
+      let bodyFile: string | undefined;
+
+      if (generated.body !== undefined) {
+        await fs.mkdir(responsesDir, { recursive: true });
+        const target = path.join(responsesDir, `${id}.${extension}`);
+        const contents =
+          extension === 'json'
+            ? `${JSON.stringify(escapeTemplates(generated.body), null, 2)}\n`
+            : String(escapeTemplates(String(generated.body)));
+        await fs.writeFile(target, contents, 'utf-8');
+        files.push(target);
+        bodyFile = `../${RESPONSES_DIR}/${id}.${extension}`;
+      }
+
+      rules.push({
+        id,
+        match: { path: toRulePath(route.path), method: route.method as HttpMethod },
+        respond: {
+          status,
+          ...(bodyFile && extension !== 'json' ? { headers: { 'Content-Type': generated.contentType as string } } : {}),
+          ...(bodyFile ? { bodyFile } : {}),
+        },
+      });
+    }
+
+    const scenario: ScenarioFile = {
+      scenario: scenarioNameFor(status),
+      description: `Every operation that declares ${status} responds with ${status} ${statusLabel(status)}`,
+      version: '1.0.0',
+      rules,
+    };
+    const fileName = `${toKebabCase(scenario.scenario)}.yaml`;
+    const target = path.join(scenariosDir, fileName);
+    await fs.writeFile(target, stringify(scenario), 'utf-8');
+    files.push(target);
+    scenarios.push({
+      scenario: scenario.scenario,
+      status,
+      file: `${SCENARIOS_DIR}/${fileName}`,
+      rules: rules.length,
+    });
+  }
+
+  const readme = path.join(options.outputDir, 'README.md');
+  await fs.writeFile(readme, buildReadme(scenarios, options.specPath), 'utf-8');
+  files.push(readme);
+
+  return { scenarios, files };
+};
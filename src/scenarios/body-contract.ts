@@ -0,0 +1,97 @@
+import { ApiRoute } from '../openapi/types';
+import {
+  formatSchemaIssues,
+  isJsonMediaType,
+  resolveResponseSchema,
+  validateSchemaValue,
+} from '../openapi/schema';
+import { createTemplateRuntime, renderTemplates } from '../templating';
+import { SPEC_LINT_CODES } from './spec-lint';
+import { responseSteps, stepPath } from '../rules/sequence';
+import { LoadedScenario, ScenarioRespond, ScenarioRule } from './types';
+import { readBodyFileValue, ValidationError } from './validation';
+
+const findHeader = (headers: Record<string, string> | undefined, name: string): string | undefined => {
+  if (!headers) return undefined;
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+  return entry?.[1];
+};
+
+// Turn a JSON pointer into the dotted path notation used by validation errors.
+const pointerToPath = (pointer: string): string => {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map((token) => (/^\d+$/.test(token) ? `[${token}]` : `.${token}`))
+    .join('');
+};
+
+const loadStaticBody = async (scenario: LoadedScenario, respond: ScenarioRespond): Promise<unknown> => {
+  if (respond.bodyFile !== undefined) {
+    return readBodyFileValue(scenario.sourcePath, respond.bodyFile);
+  }
+  return respond.body;
+};
+
+const validateStepBody = async (
+  scenario: LoadedScenario,
+  rule: ScenarioRule,
+  respond: ScenarioRespond,
+  respondPath: string,
+  routes: ApiRoute[]
+): Promise<ValidationError[]> => {
+  if (respond.body === undefined && respond.bodyFile === undefined) return [];
+
+  const contentType = findHeader(respond.headers, 'content-type');
+  if (contentType && !isJsonMediaType(contentType)) return [];
+
+  let body: unknown;
+  try {
+    body = renderTemplates(await loadStaticBody(scenario, respond), createTemplateRuntime()).value;
+  } catch {
+    // Unreadable files and broken templates are reported by scenario validation.
+    return [];
+  }
+
+  const errors: ValidationError[] = [];
+  const isInline = respond.bodyFile === undefined;
+  const basePath = `${respondPath}.${isInline ? 'body' : 'bodyFile'}`;
+
+  for (const route of routes) {
+    const resolved = resolveResponseSchema(route.responses, respond.status, contentType);
+    if (!resolved?.schema) continue;
+
+    const issues = validateSchemaValue(resolved.schema, body);
+    for (const issue of issues) {
+      errors.push({
+        file: scenario.sourcePath,
+        path: isInline ? `${basePath}${pointerToPath(issue.pointer)}` : basePath,
+        ruleId: rule.id,
+        message: `Body does not match ${route.method} ${route.path} ${resolved.status} (${resolved.contentType}): ${formatSchemaIssues([issue])}`,
+        severity: 'error',
+        code: SPEC_LINT_CODES.responseBodyMismatch,
+      });
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Validate a rule's static bodies against the response schema of every operation the
+ * rule targets. Template helpers always render to strings, so each body is rendered
+ * before validation and placeholders are checked as the strings they become.
+ */
+export const validateRuleBody = async (
+  scenario: LoadedScenario,
+  rule: ScenarioRule,
+  index: number,
+  routes: ApiRoute[]
+): Promise<ValidationError[]> => {
+  const errors: ValidationError[] = [];
+  for (const [step, respond] of responseSteps(rule).entries()) {
+    errors.push(...(await validateStepBody(scenario, rule, respond, `rules[${index}].${stepPath(rule, step)}`, routes)));
+  }
+  return errors;
+};
@@ -0,0 +1,156 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { DataRecord, DataReference, ScenarioDataResponse, ScenarioFile } from './types';
+
+export const DATA_FILE_EXTENSIONS = ['.json', '.csv'];
+
+export type DataRequest = {
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+};
+
+export type DataSelection = {
+  status: number;
+  body: unknown;
+};
+
+const REFERENCE = /^(params|query)\.(.+)$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/** The request parameter a `lookup` / `filter` value reads, if it is a reference. */
+export const parseDataReference = (
+  value: DataReference
+): { source: 'params' | 'query'; name: string } | undefined => {
+  const match = typeof value === 'string' ? REFERENCE.exec(value) : null;
+  return match ? { source: match[1] as 'params' | 'query', name: match[2] } : undefined;
+};
+
+// RFC 4180: quoted fields may hold commas, line breaks and "" for a quote.
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') index += 1;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error('unterminated quoted field');
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+
+  return rows.filter((entry) => entry.length > 1 || entry[0] !== '');
+};
+
+/** Parse CSV with a header row into records; every value stays a string. */
+export const parseCsv = (content: string): DataRecord[] => {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  return rows.map((row, index) => {
+    if (row.length !== header.length) {
+      throw new Error(`row ${index + 2} has ${row.length} fields, expected ${header.length}`);
+    }
+    return Object.fromEntries(header.map((name, column) => [name, row[column]]));
+  });
+};
+
+/** Read a JSON (list of objects) or CSV data file. */
+export const readDataFile = async (filePath: string): Promise<DataRecord[]> => {
+  const content = await fs.readFile(filePath, 'utf-8');
+  if (filePath.toLowerCase().endsWith('.csv')) return parseCsv(content);
+
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`invalid JSON: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(value) || !value.every(isPlainObject)) {
+    throw new Error('a JSON data file must contain a list of objects');
+  }
+  return value;
+};
+
+/** Data file paths are relative to the scenario file. */
+export const resolveDataFile = (scenarioFilePath: string, dataFile: string): string => {
+  return path.resolve(path.dirname(scenarioFilePath), dataFile);
+};
+
+/** Read every data collection of a scenario, inline or from its file. */
+export const loadDataSets = async (
+  scenario: ScenarioFile,
+  scenarioFilePath: string
+): Promise<Record<string, DataRecord[]>> => {
+  const dataSets: Record<string, DataRecord[]> = {};
+  for (const [name, source] of Object.entries(scenario.data ?? {})) {
+    dataSets[name] = typeof source === 'string' ? await readDataFile(resolveDataFile(scenarioFilePath, source)) : source;
+  }
+  return dataSets;
+};
+
+const resolveReference = (value: DataReference, request: DataRequest): unknown => {
+  const reference = parseDataReference(value);
+  if (!reference) return value;
+  const resolved = reference.source === 'params' ? request.params[reference.name] : request.query[reference.name];
+  return Array.isArray(resolved) ? resolved[0] : resolved;
+};
+
+// Fields compare as strings, so CSV values match numeric parameters and JSON numbers alike.
+const recordMatches = (record: DataRecord, expected: Array<[string, unknown]>): boolean => {
+  return expected.every(([field, value]) => record[field] !== undefined && String(record[field]) === String(value));
+};
+
+/**
+ * Build the answer of a `respond.data` block: the record found by `lookup` (or the
+ * `notFound` answer), the records passing `filter`, or the whole collection.
+ */
+export const selectData = (
+  response: ScenarioDataResponse,
+  records: DataRecord[],
+  status: number,
+  request: DataRequest
+): DataSelection => {
+  if (response.lookup) {
+    const expected = Object.entries(response.lookup).map(
+      ([field, value]): [string, unknown] => [field, resolveReference(value, request)]
+    );
+    const found = expected.every(([, value]) => value !== undefined)
+      ? records.find((record) => recordMatches(record, expected))
+      : undefined;
+    if (found) return { status, body: found };
+    const notFound = response.notFound ?? {};
+    return {
+      status: notFound.status ?? 404,
+      body: 'body' in notFound ? notFound.body : { message: `No ${response.collection} record found` },
+    };
+  }
+
+  const expected = Object.entries(response.filter ?? {})
+    .map(([field, value]): [string, unknown] => [field, resolveReference(value, request)])
+    .filter(([, value]) => value !== undefined);
+  return { status, body: records.filter((record) => recordMatches(record, expected)) };
+};
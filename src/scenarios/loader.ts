@@ -1,5 +1,6 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { loadDataSets } from './data';
 import { LoadedScenario } from './types';
 import {
   formatValidationErrors,
@@ -27,16 +28,22 @@ const readDirRecursive = async (dir: string): Promise<string[]> => {
   return files;
 };
 
-export const loadScenarios = async (
+export type ScenarioValidationReport = {
+  files: string[];
+  scenarios: LoadedScenario[];
+  errors: ValidationError[];
+};
+
+export const validateScenarios = async (
   sourceDir?: string,
   eventLogger?: EventLogger
-): Promise<LoadedScenario[]> => {
+): Promise<ScenarioValidationReport> => {
   if (!sourceDir) {
     eventLogger?.emitEvent({
       event: 'scenarios-discovered',
       scenarios: [],
     });
-    return [];
+    return { files: [], scenarios: [], errors: [] };
   }
 
   const files = await readDirRecursive(sourceDir);
@@ -85,6 +92,7 @@ export const loadScenarios = async (
         ...result.scenario,
         sourcePath: filePath,
         sourceDir,
+        ...(result.scenario.data ? { dataSets: await loadDataSets(result.scenario, filePath) } : {}),
       });
     }
   }
@@ -107,9 +115,19 @@ export const loadScenarios = async (
     warnings: warningList.length,
   });
 
+  return { files: scenarioFiles, scenarios, errors: validationErrors };
+};
+
+export const loadScenarios = async (
+  sourceDir?: string,
+  eventLogger?: EventLogger
+): Promise<LoadedScenario[]> => {
+  const report = await validateScenarios(sourceDir, eventLogger);
+  const errorList = report.errors.filter((entry) => entry.severity === 'error');
+
   if (errorList.length > 0) {
     throw new Error(formatValidationErrors(errorList));
   }
 
-  return scenarios;
+  return report.scenarios;
 };
@@ -0,0 +1,132 @@
+import { compareRules, matchesPath } from '../rules/matcher';
+import { isValueMatcher, jsonEquals } from '../rules/operators';
+import { ScenarioMatch, ScenarioRule } from './types';
+import { ValidationError } from './validation';
+
+export const RULE_CONFLICT_CODES = {
+  ambiguousTie: 'rules/ambiguous-tie',
+  shadowed: 'rules/shadowed',
+} as const;
+
+type Entries = Record<string, unknown>;
+
+const lowerKeys = (entries: Entries | undefined): Entries | undefined => {
+  if (!entries) return undefined;
+  return Object.fromEntries(Object.entries(entries).map(([key, value]) => [key.toLowerCase(), value]));
+};
+
+// Patterns are compared as text, so `{id}` and `*` in `inner` are segments `outer` must cover.
+const pathCovers = (outer: string | undefined, inner: string | undefined): boolean => {
+  if (outer === undefined || outer === inner) return true;
+  if (inner === undefined || inner.includes('**') || inner.endsWith('*')) return false;
+  return matchesPath(outer, inner);
+};
+
+const isAbsent = (value: unknown): boolean => {
+  return isValueMatcher(value) && (value.absent === true || value.exists === false);
+};
+
+// Every request satisfying `inner` satisfies `outer`; a null header only needs the header to be sent.
+const entriesCover = (outer: Entries | undefined, inner: Entries | undefined, nullMeansPresent = false): boolean => {
+  return Object.entries(outer ?? {}).every(([key, expected]) => {
+    if (!inner || !(key in inner)) return false;
+    if (nullMeansPresent && expected === null) return inner[key] !== undefined && !isAbsent(inner[key]);
+    return jsonEquals(expected, inner[key]);
+  });
+};
+
+/** True when every request `inner` matches is also matched by `outer`. Conservative: false when unsure. */
+const matchCovers = (outer: ScenarioMatch, inner: ScenarioMatch): boolean => {
+  return (
+    (outer.method === undefined || outer.method === inner.method) &&
+    pathCovers(outer.path, inner.path) &&
+    (outer.operationId === undefined || outer.operationId === inner.operationId) &&
+    (outer.tags === undefined || (inner.tags !== undefined && inner.tags.every((tag) => outer.tags?.includes(tag)))) &&
+    (outer.state === undefined ||
+      (inner.state !== undefined && [inner.state].flat().every((state) => [outer.state].flat().includes(state)))) &&
+    entriesCover(outer.params, inner.params) &&
+    entriesCover(lowerKeys(outer.headers), lowerKeys(inner.headers), true) &&
+    entriesCover(outer.query, inner.query) &&
+    entriesCover(outer.body, inner.body) &&
+    entriesCover(
+      { anyOf: outer.anyOf, allOf: outer.allOf, not: outer.not },
+      { anyOf: inner.anyOf, allOf: inner.allOf, not: inner.not }
+    )
+  );
+};
+
+const isScalar = (value: unknown): boolean => typeof value !== 'object' || value === null;
+
+// Two literal values, or a literal and `absent`, can never hold for the same request.
+const entriesConflict = (a: Entries | undefined, b: Entries | undefined): boolean => {
+  return Object.entries(a ?? {}).some(([key, value]) => {
+    if (!b || !(key in b)) return false;
+    const other = b[key];
+    if (isAbsent(value) || isAbsent(other)) return !(isAbsent(value) && isAbsent(other));
+    return isScalar(value) && isScalar(other) && value !== null && other !== null && !jsonEquals(value, other);
+  });
+};
+
+/** True unless the two matches provably exclude each other. */
+const matchesOverlap = (a: ScenarioMatch, b: ScenarioMatch): boolean => {
+  if (a.method && b.method && a.method !== b.method) return false;
+  if (a.operationId && b.operationId && a.operationId !== b.operationId) return false;
+  if (a.state !== undefined && b.state !== undefined && ![a.state].flat().some((state) => [b.state].flat().includes(state))) {
+    return false;
+  }
+  if (!pathCovers(a.path, b.path) && !pathCovers(b.path, a.path)) return false;
+  return ![
+    entriesConflict(a.params, b.params),
+    entriesConflict(lowerKeys(a.headers), lowerKeys(b.headers)),
+    entriesConflict(a.query, b.query),
+    entriesConflict(a.body, b.body),
+  ].some(Boolean);
+};
+
+const label = (rule: ScenarioRule, index: number): string => (rule.id ? `"${rule.id}"` : `rules[${index}]`);
+
+/**
+ * Warn about rules in one scenario that a request could not tell apart: a rule whose
+ * matches are all answered by another rule is unreachable, and overlapping rules of
+ * equal priority and specificity are decided by file order alone.
+ */
+export const lintRuleConflicts = (rules: ScenarioRule[], filePath: string): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  rules.forEach((rule, index) => {
+    for (const [otherIndex, other] of rules.entries()) {
+      if (otherIndex === index) continue;
+      const rank = compareRules(other, rule);
+      // `other` wins over `rule` on a higher rank, or on an equal one when listed first.
+      const otherWins = rank > 0 || (rank === 0 && otherIndex < index);
+      if (otherWins && matchCovers(other.match, rule.match)) {
+        errors.push({
+          file: filePath,
+          path: `rules[${index}]`,
+          ruleId: rule.id,
+          message: `Rule ${label(rule, index)} is unreachable: rule ${label(other, otherIndex)} matches every request it does and wins`,
+          severity: 'warning',
+          code: RULE_CONFLICT_CODES.shadowed,
+        });
+        return;
+      }
+    }
+
+    for (const [otherIndex, other] of rules.entries()) {
+      if (otherIndex >= index || compareRules(other, rule) !== 0) continue;
+      if (matchesOverlap(other.match, rule.match)) {
+        errors.push({
+          file: filePath,
+          path: `rules[${index}]`,
+          ruleId: rule.id,
+          message: `Rules ${label(other, otherIndex)} and ${label(rule, index)} can match the same request with equal priority and specificity; ${label(other, otherIndex)} wins because it is listed first. Set priority to make the order explicit`,
+          severity: 'warning',
+          code: RULE_CONFLICT_CODES.ambiguousTie,
+        });
+        return;
+      }
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,182 @@
+import { isStatusDeclared } from '../openapi/schema';
+import { ApiRoute } from '../openapi/types';
+import { matchesPath } from '../rules/matcher';
+import { responseSteps, stepPath } from '../rules/sequence';
+import { matchPathTemplate } from '../utils/path';
+import { validateRuleBody } from './body-contract';
+import { LoadedScenario, ScenarioRule } from './types';
+import { ValidationError, ValidationSeverity } from './validation';
+
+export type SpecLintOptions = {
+  /** Rules outside the spec are still reachable through the proxy, so report them as warnings. */
+  proxy?: boolean;
+};
+
+export const SPEC_LINT_CODES = {
+  unknownOperation: 'spec/unknown-operation',
+  undeclaredStatus: 'spec/undeclared-status',
+  wildcardNoRoutes: 'spec/wildcard-no-routes',
+  unknownOperationId: 'spec/unknown-operation-id',
+  unknownTag: 'spec/unknown-tag',
+  responseBodyMismatch: 'spec/response-body-mismatch',
+} as const;
+
+const hasWildcard = (pattern: string): boolean => pattern.includes('*');
+
+// Patterns match spec templates as text: `{id}` and `*` both cover a `{contractId}` segment.
+const routesForPath = (pattern: string, routes: ApiRoute[]): ApiRoute[] => {
+  if (hasWildcard(pattern) || pattern.includes('{')) {
+    return routes.filter((route) => matchesPath(pattern, route.path));
+  }
+  return routes.filter(
+    (route) => route.path === pattern || matchPathTemplate(route.path, pattern) !== undefined
+  );
+};
+
+const routesForOperation = (rule: ScenarioRule, routes: ApiRoute[]): ApiRoute[] => {
+  const { operationId, tags } = rule.match;
+  return routes.filter(
+    (route) =>
+      (operationId === undefined || route.operation.operationId === operationId) &&
+      (tags === undefined || tags.some((tag) => route.operation.tags?.includes(tag)))
+  );
+};
+
+const describeTarget = (rule: ScenarioRule): string => {
+  const { path, operationId, tags } = rule.match;
+  if (path !== undefined) return `path "${path}"`;
+  if (operationId !== undefined) return `operationId "${operationId}"`;
+  return `tags ${(tags ?? []).map((tag) => `"${tag}"`).join(', ')}`;
+};
+
+const describeRoute = (route: ApiRoute): string => `${route.method} ${route.path}`;
+
+const lintRule = async (
+  scenario: LoadedScenario,
+  rule: ScenarioRule,
+  index: number,
+  routes: ApiRoute[],
+  unreachableSeverity: ValidationSeverity
+): Promise<ValidationError[]> => {
+  const errors: ValidationError[] = [];
+  const basePath = `rules[${index}]`;
+  const issue = (
+    code: string,
+    pathKey: string,
+    message: string,
+    severity: ValidationSeverity
+  ): void => {
+    errors.push({
+      file: scenario.sourcePath,
+      path: pathKey,
+      ruleId: rule.id,
+      message,
+      severity,
+      code,
+    });
+  };
+
+  // operationId and tags only ever match spec operations, so unknown ones are errors even behind a proxy.
+  if (rule.match.operationId !== undefined && !routes.some((route) => route.operation.operationId === rule.match.operationId)) {
+    issue(
+      SPEC_LINT_CODES.unknownOperationId,
+      `${basePath}.match.operationId`,
+      `Unknown operationId "${rule.match.operationId}"`,
+      'error'
+    );
+    return errors;
+  }
+
+  const unknownTags = (rule.match.tags ?? []).filter(
+    (tag) => !routes.some((route) => route.operation.tags?.includes(tag))
+  );
+  for (const tag of unknownTags) {
+    issue(
+      SPEC_LINT_CODES.unknownTag,
+      `${basePath}.match.tags[${rule.match.tags?.indexOf(tag)}]`,
+      `No operation is tagged "${tag}"`,
+      'error'
+    );
+  }
+  if (unknownTags.length > 0) return errors;
+
+  const operationRoutes = routesForOperation(rule, routes);
+  const pathRoutes = rule.match.path === undefined ? operationRoutes : routesForPath(rule.match.path, operationRoutes);
+
+  // Each criterion exists on its own, so only their combination can be empty.
+  if (pathRoutes.length === 0 && (rule.match.path === undefined || routesForPath(rule.match.path, routes).length > 0)) {
+    issue(
+      SPEC_LINT_CODES.unknownOperation,
+      `${basePath}.match`,
+      'No operation matches path, operationId and tags together',
+      unreachableSeverity
+    );
+    return errors;
+  }
+
+  if (pathRoutes.length === 0 && rule.match.path !== undefined) {
+    if (hasWildcard(rule.match.path)) {
+      issue(
+        SPEC_LINT_CODES.wildcardNoRoutes,
+        `${basePath}.match.path`,
+        `Wildcard path "${rule.match.path}" does not cover any route in the spec`,
+        unreachableSeverity
+      );
+    } else {
+      issue(
+        SPEC_LINT_CODES.unknownOperation,
+        `${basePath}.match.path`,
+        `Path "${rule.match.path}" is not declared in the spec`,
+        unreachableSeverity
+      );
+    }
+    return errors;
+  }
+
+  const method = rule.match.method;
+  const covered = method
+    ? pathRoutes.filter((route) => route.method === method)
+    : pathRoutes;
+
+  if (covered.length === 0) {
+    issue(
+      SPEC_LINT_CODES.unknownOperation,
+      `${basePath}.match.method`,
+      `No ${method} operation is declared for ${describeTarget(rule)}`,
+      unreachableSeverity
+    );
+    return errors;
+  }
+
+  for (const [step, respond] of responseSteps(rule).entries()) {
+    const undeclared = covered.filter((route) => !isStatusDeclared(route.responses, respond.status));
+    if (undeclared.length > 0) {
+      issue(
+        SPEC_LINT_CODES.undeclaredStatus,
+        `${basePath}.${stepPath(rule, step)}.status`,
+        `Status ${respond.status} is not declared for ${undeclared.map(describeRoute).join(', ')}`,
+        'warning'
+      );
+    }
+  }
+
+  errors.push(...(await validateRuleBody(scenario, rule, index, covered)));
+  return errors;
+};
+
+export const lintScenariosAgainstSpec = async (
+  scenarios: LoadedScenario[],
+  routes: ApiRoute[],
+  options: SpecLintOptions = {}
+): Promise<ValidationError[]> => {
+  const unreachableSeverity: ValidationSeverity = options.proxy ? 'warning' : 'error';
+  const errors: ValidationError[] = [];
+
+  for (const scenario of scenarios) {
+    for (const [index, rule] of scenario.rules.entries()) {
+      errors.push(...(await lintRule(scenario, rule, index, routes, unreachableSeverity)));
+    }
+  }
+
+  return errors;
+};
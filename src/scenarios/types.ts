@@ -1,3 +1,5 @@
+import type { ValueMatcher } from '../rules/operators';
+
 export type HttpMethod =
   | 'GET'
   | 'POST'
@@ -7,36 +9,114 @@ export type HttpMethod =
   | 'OPTIONS'
   | 'HEAD';
 
-export type ScenarioMatch = {
-  path: string;
+/** A literal compared as a string, or an operator object. */
+export type ScenarioValue = string | ValueMatcher;
+
+/** Request conditions usable both in `match` and in nested `anyOf` / `allOf` / `not` blocks. */
+export type ScenarioCondition = {
+  path?: string;
   method?: HttpMethod;
-  query?: Record<string, string>;
-  headers?: Record<string, string | null | undefined>;
+  query?: Record<string, ScenarioValue>;
+  /** `null` only requires the header to be present. */
+  headers?: Record<string, ScenarioValue | null | undefined>;
+  /** Partial JSON body, or JSONPath / JSON pointer keys mapped to a value or operators. */
+  body?: Record<string, unknown>;
+  /** At least one block must match. */
+  anyOf?: ScenarioCondition[];
+  /** Every block must match. */
+  allOf?: ScenarioCondition[];
+  /** The block must not match. */
+  not?: ScenarioCondition;
+};
+
+export type ScenarioMatch = ScenarioCondition & {
+  /** At least one of path, operationId and tags is required. */
+  path?: string;
+  /** Matches the OpenAPI operation the request resolved to, whatever its URL. */
+  operationId?: string;
+  /** Matches operations carrying any of these tags. */
+  tags?: string[];
+  /** Required values for `{param}` segments of `path`. */
+  params?: Record<string, string>;
+  /** Scenario state(s) in which the rule applies. */
+  state?: string | string[];
+};
+
+/** One record of a scenario `data` collection. */
+export type DataRecord = Record<string, unknown>;
+
+/** `params.<name>` and `query.<name>` read the request; any other value is a literal. */
+export type DataReference = string | number | boolean;
+
+/** Answer with records of a `data` collection instead of a fixed body. */
+export type ScenarioDataResponse = {
+  collection: string;
+  /** Field values the one returned record must have; no such record answers `notFound`. */
+  lookup?: Record<string, DataReference>;
+  /** Field values every listed record must have; fields whose reference is absent are ignored. */
+  filter?: Record<string, DataReference>;
+  /** Answer when `lookup` finds nothing; defaults to 404 with a message. */
+  notFound?: { status?: number; body?: unknown };
+};
+
+/** What a rule's timeout does once it elapses. */
+export type TimeoutMode = 'respond' | 'hang' | 'destroy' | 'reset';
+
+export type ScenarioTimeout = {
+  mode: TimeoutMode;
+  /** Wait before the mode applies; on proxied rules, how long the upstream may take. Default 0. */
+  afterMs?: number;
+  /** Only for `respond`; defaults to 504. */
+  status?: number;
+  /** Only for `respond`; defaults to a timeout message. */
+  body?: unknown;
 };
 
 export type ScenarioRespond = {
   status: number;
   body?: unknown;
   bodyFile?: string;
+  data?: ScenarioDataResponse;
   headers?: Record<string, string>;
   delayMs?: number;
-  timeout?: number;
+  /** Milliseconds before a 504, or a timeout mode. */
+  timeout?: number | ScenarioTimeout;
+  /** In a response sequence: how many calls in a row this step answers, default 1. */
+  repeat?: number;
+  /** Move the scenario into this state once the response is chosen. */
+  setState?: string;
 };
 
+/** What a response sequence does after its last step. */
+export type SequenceMode = 'stick-on-last' | 'cycle';
+
 export type ScenarioRule = {
   id?: string;
+  /** Beats specificity when several rules match; higher wins, default 0. */
+  priority?: number;
   match: ScenarioMatch;
-  respond: ScenarioRespond;
+  /** One response, or a sequence answering consecutive matching calls in order. */
+  respond: ScenarioRespond | ScenarioRespond[];
+  /** Only for sequences; defaults to stick-on-last. */
+  sequence?: SequenceMode;
 };
 
 export type ScenarioFile = {
   scenario: string;
   description?: string;
   version?: string;
+  /** Set to false to skip request validation while this scenario is active. */
+  validateRequests?: boolean;
+  /** State the scenario starts in; defaults to "initial". */
+  initialState?: string;
+  /** Named record collections: inline lists, or paths of JSON or CSV files. */
+  data?: Record<string, DataRecord[] | string>;
   rules: ScenarioRule[];
 };
 
 export type LoadedScenario = ScenarioFile & {
   sourcePath: string;
   sourceDir: string;
+  /** `data` with files read, filled in by the loader. */
+  dataSets?: Record<string, DataRecord[]>;
 };
@@ -1,6 +1,14 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import { YAMLError, parseDocument } from 'yaml';
+import { Document, LineCounter, YAMLError, isNode, parseDocument } from 'yaml';
+import { validateBodyMatch } from '../rules/body-matcher';
+import { pathPatternParams, validatePathPattern } from '../rules/matcher';
+import { validateValueMatcher } from '../rules/operators';
+import { responseSteps, SEQUENCE_MODES, stepPath } from '../rules/sequence';
+import { TIMEOUT_MODES } from '../responses/timeout';
+import { DATA_FILE_EXTENSIONS, parseDataReference, readDataFile, resolveDataFile } from './data';
+import { lintRuleConflicts } from './rule-conflicts';
+import { initialStateOf } from '../state/scenario-machine';
 import { ScenarioFile, ScenarioRule } from './types';
 import { validateTemplatesInBody, validateTemplatesNotAllowed } from '../templating/validation';
 
@@ -14,6 +22,7 @@ export type ValidationError = {
   severity: ValidationSeverity;
   line?: number;
   column?: number;
+  code?: string;
 };
 
 export type ValidationResult = {
@@ -21,10 +30,23 @@ export type ValidationResult = {
   errors: ValidationError[];
 };
 
-const ROOT_KEYS = new Set(['scenario', 'description', 'rules', 'version']);
-const RULE_KEYS = new Set(['id', 'match', 'respond']);
-const MATCH_KEYS = new Set(['path', 'method', 'query', 'headers']);
-const RESPOND_KEYS = new Set(['status', 'body', 'bodyFile', 'headers', 'delayMs', 'timeout']);
+const ROOT_KEYS = new Set(['scenario', 'description', 'rules', 'version', 'validateRequests', 'initialState', 'data']);
+const RULE_KEYS = new Set(['id', 'priority', 'match', 'respond', 'sequence']);
+const CONDITION_KEYS = new Set(['path', 'method', 'query', 'headers', 'body', 'anyOf', 'allOf', 'not']);
+const MATCH_KEYS = new Set([...CONDITION_KEYS, 'operationId', 'tags', 'params', 'state']);
+const RESPOND_KEYS = new Set([
+  'status',
+  'body',
+  'bodyFile',
+  'data',
+  'headers',
+  'delayMs',
+  'timeout',
+  'repeat',
+  'setState',
+]);
+const DATA_RESPONSE_KEYS = new Set(['collection', 'lookup', 'filter', 'notFound']);
+const TIMEOUT_KEYS = new Set(['mode', 'afterMs', 'status', 'body']);
 
 const VALID_METHODS = new Set([
   'GET',
@@ -38,6 +60,10 @@ const VALID_METHODS = new Set([
 
 const RESERVED_SCENARIO_PREFIXES = ['auto-gen-'];
 
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
 const isPlainObject = (value: unknown): value is Record<string, unknown> => {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 };
@@ -62,10 +88,19 @@ const extractLineInfo = (error: YAMLError): { line?: number; column?: number } =
   return { line: linePos[0].line, column: linePos[0].col };
 };
 
-const parseYamlStrict = (filePath: string, content: string): { data?: unknown; errors: ValidationError[] } => {
+type ParsedYaml = {
+  data?: unknown;
+  errors: ValidationError[];
+  doc: Document;
+  lineCounter: LineCounter;
+};
+
+const parseYamlStrict = (filePath: string, content: string): ParsedYaml => {
+  const lineCounter = new LineCounter();
   const doc = parseDocument(content, {
     prettyErrors: true,
     uniqueKeys: true,
+    lineCounter,
   });
 
   const errors: ValidationError[] = [];
@@ -81,11 +116,47 @@ const parseYamlStrict = (filePath: string, content: string): { data?: unknown; e
   }
 
   if (errors.some((entry) => entry.severity === 'error')) {
-    return { errors };
+    return { errors, doc, lineCounter };
   }
 
   const data = doc.toJS({ maxAliasCount: 0 });
-  return { data, errors };
+  return { data, errors, doc, lineCounter };
+};
+
+const toPathSegments = (pathKey: string): Array<string | number> => {
+  const segments: Array<string | number> = [];
+  for (const part of pathKey.split('.')) {
+    const match = /^([^[]*)((?:\[\d+\])*)$/.exec(part);
+    if (!match) {
+      segments.push(part);
+      continue;
+    }
+    if (match[1]) segments.push(match[1]);
+    for (const index of match[2].matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(index[1]));
+    }
+  }
+  return segments;
+};
+
+// Point errors without a parser location at the closest YAML node for their path,
+// so reports can annotate the offending line.
+const attachLocations = (errors: ValidationError[], parsed: ParsedYaml): void => {
+  for (const error of errors) {
+    if (error.line !== undefined || !error.path) continue;
+    const segments = toPathSegments(error.path);
+
+    while (segments.length > 0) {
+      const node = parsed.doc.getIn(segments, true);
+      if (isNode(node) && node.range) {
+        const position = parsed.lineCounter.linePos(node.range[0]);
+        error.line = position.line;
+        error.column = position.col;
+        break;
+      }
+      segments.pop();
+    }
+  }
 };
 
 const validateRootObject = (value: unknown, filePath: string): ValidationError[] => {
@@ -118,6 +189,30 @@ const validateRootObject = (value: unknown, filePath: string): ValidationError[]
     }
   }
 
+  if (value.validateRequests !== undefined && typeof value.validateRequests !== 'boolean') {
+    pushError(errors, filePath, 'validateRequests', 'validateRequests must be a boolean');
+  }
+
+  if (value.initialState !== undefined && !isNonEmptyString(value.initialState)) {
+    pushError(errors, filePath, 'initialState', 'initialState must be a non-empty string');
+  }
+
+  if (value.data !== undefined) {
+    if (!isPlainObject(value.data)) {
+      pushError(errors, filePath, 'data', 'data must be an object of named collections');
+    } else {
+      for (const [name, source] of Object.entries(value.data)) {
+        if (typeof source === 'string') {
+          if (!DATA_FILE_EXTENSIONS.some((extension) => source.toLowerCase().endsWith(extension))) {
+            pushError(errors, filePath, `data.${name}`, `data file must end in ${DATA_FILE_EXTENSIONS.join(' or ')}`);
+          }
+        } else if (!Array.isArray(source) || !source.every(isPlainObject)) {
+          pushError(errors, filePath, `data.${name}`, 'data collections must be a list of objects or a file path');
+        }
+      }
+    }
+  }
+
   if (!Array.isArray(value.rules) || value.rules.length === 0) {
     pushError(errors, filePath, 'rules', 'Rules must be a non-empty array');
   }
@@ -125,6 +220,365 @@ const validateRootObject = (value: unknown, filePath: string): ValidationError[]
   return errors;
 };
 
+// Checks shared by `match` and the nested `anyOf` / `allOf` / `not` blocks.
+const validateCondition = (
+  condition: Record<string, unknown>,
+  conditionPath: string,
+  filePath: string,
+  ruleId: string | undefined
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (condition.path !== undefined && (typeof condition.path !== 'string' || condition.path.trim().length === 0)) {
+    pushError(errors, filePath, `${conditionPath}.path`, 'path must be a non-empty string', 'error', undefined, undefined, ruleId);
+  } else if (typeof condition.path === 'string') {
+    if (!condition.path.startsWith('/')) {
+      pushError(errors, filePath, `${conditionPath}.path`, 'path must start with /', 'error', undefined, undefined, ruleId);
+    }
+    const patternError = validatePathPattern(condition.path);
+    if (patternError) {
+      pushError(errors, filePath, `${conditionPath}.path`, patternError, 'error', undefined, undefined, ruleId);
+    }
+  }
+
+  if (condition.method !== undefined) {
+    if (typeof condition.method !== 'string') {
+      pushError(errors, filePath, `${conditionPath}.method`, 'method must be a string', 'error', undefined, undefined, ruleId);
+    } else if (!VALID_METHODS.has(condition.method)) {
+      pushError(
+        errors,
+        filePath,
+        `${conditionPath}.method`,
+        `"${condition.method}" is not a valid HTTP method`,
+        'error',
+        undefined,
+        undefined,
+        ruleId
+      );
+    }
+  }
+
+  if (condition.query !== undefined) {
+    if (!isPlainObject(condition.query)) {
+      pushError(errors, filePath, `${conditionPath}.query`, 'query must be an object', 'error', undefined, undefined, ruleId);
+    } else {
+      for (const [key, value] of Object.entries(condition.query)) {
+        if (isPlainObject(value)) {
+          for (const message of validateValueMatcher(value)) {
+            pushError(errors, filePath, `${conditionPath}.query.${key}`, message, 'error', undefined, undefined, ruleId);
+          }
+        } else if (typeof value !== 'string') {
+          pushError(
+            errors,
+            filePath,
+            `${conditionPath}.query.${key}`,
+            'query values must be strings or operator objects',
+            'error',
+            undefined,
+            undefined,
+            ruleId
+          );
+        }
+      }
+    }
+  }
+
+  if (condition.headers !== undefined) {
+    if (!isPlainObject(condition.headers)) {
+      pushError(errors, filePath, `${conditionPath}.headers`, 'headers must be an object', 'error', undefined, undefined, ruleId);
+    } else {
+      for (const [key, value] of Object.entries(condition.headers)) {
+        if (typeof key !== 'string') {
+          pushError(
+            errors,
+            filePath,
+            `${conditionPath}.headers`,
+            'header keys must be strings',
+            'error',
+            undefined,
+            undefined,
+            ruleId
+          );
+        }
+        if (isPlainObject(value)) {
+          for (const message of validateValueMatcher(value)) {
+            pushError(errors, filePath, `${conditionPath}.headers.${key}`, message, 'error', undefined, undefined, ruleId);
+          }
+        } else if (value !== null && value !== undefined && typeof value !== 'string') {
+          pushError(
+            errors,
+            filePath,
+            `${conditionPath}.headers.${key}`,
+            'header values must be strings, null or operator objects',
+            'error',
+            undefined,
+            undefined,
+            ruleId
+          );
+        }
+      }
+    }
+  }
+
+  if (condition.body !== undefined) {
+    if (!isPlainObject(condition.body)) {
+      pushError(errors, filePath, `${conditionPath}.body`, 'body must be an object', 'error', undefined, undefined, ruleId);
+    } else {
+      for (const { key, message } of validateBodyMatch(condition.body)) {
+        pushError(errors, filePath, `${conditionPath}.body.${key}`, message, 'error', undefined, undefined, ruleId);
+      }
+    }
+  }
+
+  for (const key of ['anyOf', 'allOf'] as const) {
+    const blocks = condition[key];
+    if (blocks === undefined) continue;
+    if (!Array.isArray(blocks) || blocks.length === 0) {
+      pushError(errors, filePath, `${conditionPath}.${key}`, `${key} must be a non-empty list`, 'error', undefined, undefined, ruleId);
+      continue;
+    }
+    blocks.forEach((block, blockIndex) => {
+      errors.push(...validateNestedCondition(block, `${conditionPath}.${key}[${blockIndex}]`, filePath, ruleId));
+    });
+  }
+
+  if (condition.not !== undefined) {
+    errors.push(...validateNestedCondition(condition.not, `${conditionPath}.not`, filePath, ruleId));
+  }
+
+  return errors;
+};
+
+const validateNestedCondition = (
+  condition: unknown,
+  conditionPath: string,
+  filePath: string,
+  ruleId: string | undefined
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  if (!isPlainObject(condition) || Object.keys(condition).length === 0) {
+    pushError(errors, filePath, conditionPath, 'condition must be a non-empty object', 'error', undefined, undefined, ruleId);
+    return errors;
+  }
+  for (const key of Object.keys(condition)) {
+    if (!CONDITION_KEYS.has(key)) {
+      pushError(errors, filePath, `${conditionPath}.${key}`, `Unknown condition key "${key}"`, 'error', undefined, undefined, ruleId);
+    }
+  }
+  errors.push(...validateCondition(condition, conditionPath, filePath, ruleId));
+  return errors;
+};
+
+const isDataReference = (value: unknown): boolean => {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+};
+
+// Shape of `respond.data`; collection names and params are checked against the whole file later.
+const validateDataResponse = (
+  data: unknown,
+  dataPath: string,
+  filePath: string,
+  ruleId: string | undefined
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const push = (key: string, message: string): void => {
+    pushError(errors, filePath, key ? `${dataPath}.${key}` : dataPath, message, 'error', undefined, undefined, ruleId);
+  };
+
+  if (!isPlainObject(data)) {
+    push('', 'data must be an object');
+    return errors;
+  }
+
+  for (const key of Object.keys(data)) {
+    if (!DATA_RESPONSE_KEYS.has(key)) push(key, `Unknown data key "${key}"`);
+  }
+
+  if (!isNonEmptyString(data.collection)) {
+    push('collection', 'collection must be a non-empty string');
+  }
+
+  for (const key of ['lookup', 'filter'] as const) {
+    const fields = data[key];
+    if (fields === undefined) continue;
+    if (!isPlainObject(fields) || Object.keys(fields).length === 0) {
+      push(key, `${key} must be a non-empty object`);
+    } else if (!Object.values(fields).every(isDataReference)) {
+      push(key, `${key} values must be strings, numbers or booleans`);
+    }
+  }
+
+  if (data.lookup !== undefined && data.filter !== undefined) {
+    push('', 'Only one of lookup or filter may be provided');
+  }
+
+  if (data.notFound !== undefined) {
+    if (data.lookup === undefined) {
+      push('notFound', 'notFound needs lookup');
+    } else if (!isPlainObject(data.notFound) || Object.keys(data.notFound).some((key) => key !== 'status' && key !== 'body')) {
+      push('notFound', 'notFound must be an object with status and body');
+    } else {
+      const { status } = data.notFound;
+      if (status !== undefined && (!Number.isInteger(status) || (status as number) < 100 || (status as number) > 599)) {
+        push('notFound.status', 'status must be between 100 and 599');
+      }
+    }
+  }
+
+  return errors;
+};
+
+const validateTimeout = (
+  timeout: unknown,
+  timeoutPath: string,
+  filePath: string,
+  ruleId: string | undefined
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const push = (key: string, message: string): void => {
+    pushError(errors, filePath, key ? `${timeoutPath}.${key}` : timeoutPath, message, 'error', undefined, undefined, ruleId);
+  };
+
+  if (typeof timeout === 'number') {
+    if (timeout < 0) push('', 'timeout must be >= 0');
+    return errors;
+  }
+  if (!isPlainObject(timeout)) {
+    push('', 'timeout must be a number or an object with mode');
+    return errors;
+  }
+
+  for (const key of Object.keys(timeout)) {
+    if (!TIMEOUT_KEYS.has(key)) push(key, `Unknown timeout key "${key}"`);
+  }
+
+  if (!(TIMEOUT_MODES as readonly unknown[]).includes(timeout.mode)) {
+    push('mode', `mode must be one of ${TIMEOUT_MODES.join(', ')}`);
+  }
+  if (timeout.afterMs !== undefined && (typeof timeout.afterMs !== 'number' || timeout.afterMs < 0)) {
+    push('afterMs', 'afterMs must be >= 0');
+  }
+
+  for (const key of ['status', 'body'] as const) {
+    if (key in timeout && timeout.mode !== 'respond') {
+      push(key, `${key} is only allowed with mode "respond"`);
+    }
+  }
+  const { status } = timeout;
+  if (status !== undefined && (!Number.isInteger(status) || (status as number) < 100 || (status as number) > 599)) {
+    push('status', 'status must be between 100 and 599');
+  }
+
+  return errors;
+};
+
+const validateRespond = (
+  respond: unknown,
+  respondPath: string,
+  filePath: string,
+  ruleId: string | undefined,
+  inSequence: boolean
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!isPlainObject(respond)) {
+    pushError(errors, filePath, respondPath, 'respond must be an object', 'error', undefined, undefined, ruleId);
+    return errors;
+  }
+
+  for (const key of Object.keys(respond)) {
+    if (!RESPOND_KEYS.has(key)) {
+      pushError(errors, filePath, `${respondPath}.${key}`, `Unknown respond key "${key}"`, 'error', undefined, undefined, ruleId);
+    }
+  }
+
+  if (respond.status === undefined) {
+    pushError(errors, filePath, `${respondPath}.status`, 'status is required', 'error', undefined, undefined, ruleId);
+  } else if (typeof respond.status !== 'number' || !Number.isFinite(respond.status)) {
+    pushError(errors, filePath, `${respondPath}.status`, 'status must be a number', 'error', undefined, undefined, ruleId);
+  } else if (respond.status < 100 || respond.status > 599) {
+    pushError(
+      errors,
+      filePath,
+      `${respondPath}.status`,
+      'status must be between 100 and 599',
+      'error',
+      undefined,
+      undefined,
+      ruleId
+    );
+  }
+
+  if (respond.body !== undefined && respond.bodyFile !== undefined) {
+    pushError(
+      errors,
+      filePath,
+      respondPath,
+      'Only one of body or bodyFile may be provided',
+      'error',
+      undefined,
+      undefined,
+      ruleId
+    );
+  }
+
+  if (respond.data !== undefined) {
+    if (respond.body !== undefined || respond.bodyFile !== undefined) {
+      pushError(errors, filePath, `${respondPath}.data`, 'data cannot be combined with body or bodyFile', 'error', undefined, undefined, ruleId);
+    }
+    errors.push(...validateDataResponse(respond.data, `${respondPath}.data`, filePath, ruleId));
+  }
+
+  if (respond.bodyFile !== undefined && typeof respond.bodyFile !== 'string') {
+    pushError(errors, filePath, `${respondPath}.bodyFile`, 'bodyFile must be a string', 'error', undefined, undefined, ruleId);
+  }
+
+  if (respond.headers !== undefined) {
+    if (!isPlainObject(respond.headers)) {
+      pushError(errors, filePath, `${respondPath}.headers`, 'headers must be an object', 'error', undefined, undefined, ruleId);
+    } else {
+      for (const [key, value] of Object.entries(respond.headers)) {
+        if (typeof value !== 'string') {
+          pushError(
+            errors,
+            filePath,
+            `${respondPath}.headers.${key}`,
+            'header values must be strings',
+            'error',
+            undefined,
+            undefined,
+            ruleId
+          );
+        }
+      }
+    }
+  }
+
+  if (respond.delayMs !== undefined) {
+    if (typeof respond.delayMs !== 'number' || respond.delayMs < 0) {
+      pushError(errors, filePath, `${respondPath}.delayMs`, 'delayMs must be >= 0', 'error', undefined, undefined, ruleId);
+    }
+  }
+
+  if (respond.timeout !== undefined) {
+    errors.push(...validateTimeout(respond.timeout, `${respondPath}.timeout`, filePath, ruleId));
+  }
+
+  if (respond.repeat !== undefined) {
+    if (!inSequence) {
+      pushError(errors, filePath, `${respondPath}.repeat`, 'repeat is only allowed in a list of responses', 'error', undefined, undefined, ruleId);
+    } else if (!Number.isInteger(respond.repeat) || (respond.repeat as number) < 1) {
+      pushError(errors, filePath, `${respondPath}.repeat`, 'repeat must be a positive integer', 'error', undefined, undefined, ruleId);
+    }
+  }
+
+  if (respond.setState !== undefined && !isNonEmptyString(respond.setState)) {
+    pushError(errors, filePath, `${respondPath}.setState`, 'setState must be a non-empty string', 'error', undefined, undefined, ruleId);
+  }
+
+  return errors;
+};
+
 const validateRule = (rule: unknown, filePath: string, index: number): ValidationError[] => {
   const errors: ValidationError[] = [];
   const basePath = `rules[${index}]`;
@@ -137,7 +591,9 @@ const validateRule = (rule: unknown, filePath: string, index: number): Validatio
 
   for (const key of Object.keys(rule)) {
     if (!RULE_KEYS.has(key)) {
-      pushError(errors, filePath, `${basePath}.${key}`, `Unknown rule key "${key}"`, 'error', undefined, undefined, ruleId);
+      const message =
+        key === 'mode' ? 'Unknown rule key "mode"; a response sequence is set with "sequence"' : `Unknown rule key "${key}"`;
+      pushError(errors, filePath, `${basePath}.${key}`, message, 'error', undefined, undefined, ruleId);
     }
   }
 
@@ -145,6 +601,10 @@ const validateRule = (rule: unknown, filePath: string, index: number): Validatio
     pushError(errors, filePath, `${basePath}.id`, 'Rule id must be a non-empty string', 'error', undefined, undefined, ruleId);
   }
 
+  if (rule.priority !== undefined && !Number.isInteger(rule.priority)) {
+    pushError(errors, filePath, `${basePath}.priority`, 'priority must be an integer', 'error', undefined, undefined, ruleId);
+  }
+
   if (!isPlainObject(rule.match)) {
     pushError(errors, filePath, `${basePath}.match`, 'match must be an object', 'error', undefined, undefined, ruleId);
   } else {
@@ -154,79 +614,62 @@ const validateRule = (rule: unknown, filePath: string, index: number): Validatio
       }
     }
 
-    if (typeof rule.match.path !== 'string' || rule.match.path.trim().length === 0) {
-      pushError(errors, filePath, `${basePath}.match.path`, 'path must be a non-empty string', 'error', undefined, undefined, ruleId);
-    } else {
-      if (!rule.match.path.startsWith('/')) {
-        pushError(errors, filePath, `${basePath}.match.path`, 'path must start with /', 'error', undefined, undefined, ruleId);
-      }
-      const wildcardCount = (rule.match.path.match(/\*/g) || []).length;
-      if (wildcardCount > 1) {
-        pushError(errors, filePath, `${basePath}.match.path`, 'path supports at most one * wildcard', 'error', undefined, undefined, ruleId);
-      }
+    const hasTarget =
+      rule.match.path !== undefined || rule.match.operationId !== undefined || rule.match.tags !== undefined;
+    if (!hasTarget) {
+      pushError(errors, filePath, `${basePath}.match`, 'match needs path, operationId or tags', 'error', undefined, undefined, ruleId);
     }
 
-    if (rule.match.method !== undefined) {
-      if (typeof rule.match.method !== 'string') {
-        pushError(errors, filePath, `${basePath}.match.method`, 'method must be a string', 'error', undefined, undefined, ruleId);
-      } else if (!VALID_METHODS.has(rule.match.method)) {
-        pushError(
-          errors,
-          filePath,
-          `${basePath}.match.method`,
-          `"${rule.match.method}" is not a valid HTTP method`,
-          'error',
-          undefined,
-          undefined,
-          ruleId
-        );
-      }
+    if (rule.match.operationId !== undefined && (typeof rule.match.operationId !== 'string' || !rule.match.operationId.trim())) {
+      pushError(errors, filePath, `${basePath}.match.operationId`, 'operationId must be a non-empty string', 'error', undefined, undefined, ruleId);
     }
 
-    if (rule.match.query !== undefined) {
-      if (!isPlainObject(rule.match.query)) {
-        pushError(errors, filePath, `${basePath}.match.query`, 'query must be an object', 'error', undefined, undefined, ruleId);
-      } else {
-        for (const [key, value] of Object.entries(rule.match.query)) {
-          if (typeof value !== 'string') {
-            pushError(
-              errors,
-              filePath,
-              `${basePath}.match.query.${key}`,
-              'query values must be strings',
-              'error',
-              undefined,
-              undefined,
-              ruleId
-            );
-          }
-        }
-      }
+    if (
+      rule.match.tags !== undefined &&
+      (!Array.isArray(rule.match.tags) ||
+        rule.match.tags.length === 0 ||
+        rule.match.tags.some((tag) => typeof tag !== 'string' || !tag.trim()))
+    ) {
+      pushError(errors, filePath, `${basePath}.match.tags`, 'tags must be a non-empty list of strings', 'error', undefined, undefined, ruleId);
     }
 
-    if (rule.match.headers !== undefined) {
-      if (!isPlainObject(rule.match.headers)) {
-        pushError(errors, filePath, `${basePath}.match.headers`, 'headers must be an object', 'error', undefined, undefined, ruleId);
+    const { state } = rule.match;
+    if (
+      state !== undefined &&
+      !isNonEmptyString(state) &&
+      !(Array.isArray(state) && state.length > 0 && state.every(isNonEmptyString))
+    ) {
+      pushError(errors, filePath, `${basePath}.match.state`, 'state must be a non-empty string or list of strings', 'error', undefined, undefined, ruleId);
+    }
+
+    errors.push(...validateCondition(rule.match, `${basePath}.match`, filePath, ruleId));
+
+    if (rule.match.params !== undefined) {
+      if (!isPlainObject(rule.match.params)) {
+        pushError(errors, filePath, `${basePath}.match.params`, 'params must be an object', 'error', undefined, undefined, ruleId);
       } else {
-        for (const [key, value] of Object.entries(rule.match.headers)) {
-          if (typeof key !== 'string') {
+        const declared =
+          typeof rule.match.path === 'string' && !validatePathPattern(rule.match.path)
+            ? pathPatternParams(rule.match.path)
+            : undefined;
+        for (const [key, value] of Object.entries(rule.match.params)) {
+          if (typeof value !== 'string') {
             pushError(
               errors,
               filePath,
-              `${basePath}.match.headers`,
-              'header keys must be strings',
+              `${basePath}.match.params.${key}`,
+              'params values must be strings',
               'error',
               undefined,
               undefined,
               ruleId
             );
-          }
-          if (value !== null && value !== undefined && typeof value !== 'string') {
+          } else if (declared && !declared.includes(key)) {
             pushError(
               errors,
               filePath,
-              `${basePath}.match.headers.${key}`,
-              'header values must be strings or null',
+              `${basePath}.match.params.${key}`,
+              `"${key}" is not a {param} segment of match.path`,
               'error',
               undefined,
               undefined,
@@ -238,81 +681,34 @@ const validateRule = (rule: unknown, filePath: string, index: number): Validatio
     }
   }
 
-  if (!isPlainObject(rule.respond)) {
-    pushError(errors, filePath, `${basePath}.respond`, 'respond must be an object', 'error', undefined, undefined, ruleId);
-  } else {
-    for (const key of Object.keys(rule.respond)) {
-      if (!RESPOND_KEYS.has(key)) {
-        pushError(errors, filePath, `${basePath}.respond.${key}`, `Unknown respond key "${key}"`, 'error', undefined, undefined, ruleId);
-      }
-    }
-
-    if (rule.respond.status === undefined) {
-      pushError(errors, filePath, `${basePath}.respond.status`, 'status is required', 'error', undefined, undefined, ruleId);
-    } else if (typeof rule.respond.status !== 'number' || !Number.isFinite(rule.respond.status)) {
-      pushError(errors, filePath, `${basePath}.respond.status`, 'status must be a number', 'error', undefined, undefined, ruleId);
-    } else if (rule.respond.status < 100 || rule.respond.status > 599) {
-      pushError(
-        errors,
-        filePath,
-        `${basePath}.respond.status`,
-        'status must be between 100 and 599',
-        'error',
-        undefined,
-        undefined,
-        ruleId
-      );
+  if (Array.isArray(rule.respond)) {
+    if (rule.respond.length === 0) {
+      pushError(errors, filePath, `${basePath}.respond`, 'respond list must not be empty', 'error', undefined, undefined, ruleId);
     }
+    rule.respond.forEach((step, stepIndex) => {
+      errors.push(...validateRespond(step, `${basePath}.respond[${stepIndex}]`, filePath, ruleId, true));
+    });
+  } else {
+    errors.push(...validateRespond(rule.respond, `${basePath}.respond`, filePath, ruleId, false));
+  }
 
-    if (rule.respond.body !== undefined && rule.respond.bodyFile !== undefined) {
+  if (rule.sequence !== undefined) {
+    if (!Array.isArray(rule.respond)) {
+      pushError(errors, filePath, `${basePath}.sequence`, 'sequence needs a list of responses', 'error', undefined, undefined, ruleId);
+    } else if (!(SEQUENCE_MODES as readonly unknown[]).includes(rule.sequence)) {
       pushError(
         errors,
         filePath,
-        `${basePath}.respond`,
-        'Only one of body or bodyFile may be provided',
+        `${basePath}.sequence`,
+        rule.sequence === 'repeat'
+          ? `sequence must be one of ${SEQUENCE_MODES.join(', ')}; "repeat" is a count set on a step (repeat: 3)`
+          : `sequence must be one of ${SEQUENCE_MODES.join(', ')}`,
         'error',
         undefined,
         undefined,
         ruleId
       );
     }
-
-    if (rule.respond.bodyFile !== undefined && typeof rule.respond.bodyFile !== 'string') {
-      pushError(errors, filePath, `${basePath}.respond.bodyFile`, 'bodyFile must be a string', 'error', undefined, undefined, ruleId);
-    }
-
-    if (rule.respond.headers !== undefined) {
-      if (!isPlainObject(rule.respond.headers)) {
-        pushError(errors, filePath, `${basePath}.respond.headers`, 'headers must be an object', 'error', undefined, undefined, ruleId);
-      } else {
-        for (const [key, value] of Object.entries(rule.respond.headers)) {
-          if (typeof value !== 'string') {
-            pushError(
-              errors,
-              filePath,
-              `${basePath}.respond.headers.${key}`,
-              'header values must be strings',
-              'error',
-              undefined,
-              undefined,
-              ruleId
-            );
-          }
-        }
-      }
-    }
-
-    if (rule.respond.delayMs !== undefined) {
-      if (typeof rule.respond.delayMs !== 'number' || rule.respond.delayMs < 0) {
-        pushError(errors, filePath, `${basePath}.respond.delayMs`, 'delayMs must be >= 0', 'error', undefined, undefined, ruleId);
-      }
-    }
-
-    if (rule.respond.timeout !== undefined) {
-      if (typeof rule.respond.timeout !== 'number' || rule.respond.timeout < 0) {
-        pushError(errors, filePath, `${basePath}.respond.timeout`, 'timeout must be >= 0', 'error', undefined, undefined, ruleId);
-      }
-    }
   }
 
   return errors;
@@ -367,7 +763,7 @@ const resolveBodyFilePath = (scenarioFilePath: string, bodyFile: string): string
   return path.resolve(path.dirname(scenarioFilePath), bodyFile);
 };
 
-const readBodyFileValue = async (scenarioFilePath: string, bodyFile: string): Promise<unknown> => {
+export const readBodyFileValue = async (scenarioFilePath: string, bodyFile: string): Promise<unknown> => {
   const fullPath = resolveBodyFilePath(scenarioFilePath, bodyFile);
   const file = await fs.readFile(fullPath, 'utf-8');
   try {
@@ -377,9 +773,11 @@ const readBodyFileValue = async (scenarioFilePath: string, bodyFile: string): Pr
   }
 };
 
+// Rules that failed validation may not have the expected shape, so only valid ones are checked.
 const validateScenarioTemplates = async (
   scenario: ScenarioFile,
-  filePath: string
+  filePath: string,
+  validRules: Set<number>
 ): Promise<ValidationError[]> => {
   const errors: ValidationError[] = [];
 
@@ -405,7 +803,16 @@ const validateScenarioTemplates = async (
     );
   }
 
+  if (scenario.initialState !== undefined) {
+    collectTemplateErrors(
+      validateTemplatesNotAllowed(scenario.initialState, 'initialState'),
+      errors,
+      filePath
+    );
+  }
+
   for (const [index, rule] of scenario.rules.entries()) {
+    if (!validRules.has(index)) continue;
     const basePath = `rules[${index}]`;
     const ruleId = rule.id;
 
@@ -418,12 +825,23 @@ const validateScenarioTemplates = async (
       );
     }
 
-    collectTemplateErrors(
-      validateTemplatesNotAllowed(rule.match.path, `${basePath}.match.path`),
-      errors,
-      filePath,
-      ruleId
-    );
+    if (rule.match.path !== undefined) {
+      collectTemplateErrors(
+        validateTemplatesNotAllowed(rule.match.path, `${basePath}.match.path`),
+        errors,
+        filePath,
+        ruleId
+      );
+    }
+
+    if (rule.match.operationId !== undefined) {
+      collectTemplateErrors(
+        validateTemplatesNotAllowed(rule.match.operationId, `${basePath}.match.operationId`),
+        errors,
+        filePath,
+        ruleId
+      );
+    }
 
     if (rule.match.method !== undefined) {
       collectTemplateErrors(
@@ -434,6 +852,17 @@ const validateScenarioTemplates = async (
       );
     }
 
+    if (rule.match.params !== undefined) {
+      for (const [key, value] of Object.entries(rule.match.params)) {
+        collectTemplateErrors(
+          validateTemplatesNotAllowed(value, `${basePath}.match.params.${key}`),
+          errors,
+          filePath,
+          ruleId
+        );
+      }
+    }
+
     if (rule.match.query !== undefined) {
       for (const [key, value] of Object.entries(rule.match.query)) {
         collectTemplateErrors(
@@ -445,6 +874,35 @@ const validateScenarioTemplates = async (
       }
     }
 
+    if (rule.match.body !== undefined) {
+      collectTemplateErrors(
+        validateTemplatesNotAllowed(rule.match.body, `${basePath}.match.body`),
+        errors,
+        filePath,
+        ruleId
+      );
+    }
+
+    if (rule.match.state !== undefined) {
+      collectTemplateErrors(
+        validateTemplatesNotAllowed(rule.match.state, `${basePath}.match.state`),
+        errors,
+        filePath,
+        ruleId
+      );
+    }
+
+    for (const key of ['anyOf', 'allOf', 'not'] as const) {
+      if (rule.match[key] !== undefined) {
+        collectTemplateErrors(
+          validateTemplatesNotAllowed(rule.match[key], `${basePath}.match.${key}`),
+          errors,
+          filePath,
+          ruleId
+        );
+      }
+    }
+
     if (rule.match.headers !== undefined) {
       for (const [key, value] of Object.entries(rule.match.headers)) {
         if (value !== undefined && value !== null) {
@@ -458,54 +916,185 @@ const validateScenarioTemplates = async (
       }
     }
 
-    if (rule.respond.headers !== undefined) {
-      for (const [key, value] of Object.entries(rule.respond.headers)) {
+    for (const [step, respond] of responseSteps(rule).entries()) {
+      const respondPath = `${basePath}.${stepPath(rule, step)}`;
+
+      if (respond.data !== undefined) {
         collectTemplateErrors(
-          validateTemplatesNotAllowed(value, `${basePath}.respond.headers.${key}`),
+          validateTemplatesNotAllowed(respond.data, `${respondPath}.data`),
           errors,
           filePath,
           ruleId
         );
       }
-    }
 
-    if (rule.respond.bodyFile !== undefined) {
-      collectTemplateErrors(
-        validateTemplatesNotAllowed(rule.respond.bodyFile, `${basePath}.respond.bodyFile`),
-        errors,
-        filePath,
-        ruleId
-      );
+      if (respond.timeout !== undefined) {
+        collectTemplateErrors(
+          validateTemplatesNotAllowed(respond.timeout, `${respondPath}.timeout`),
+          errors,
+          filePath,
+          ruleId
+        );
+      }
 
-      try {
-        const bodyValue = await readBodyFileValue(filePath, rule.respond.bodyFile);
+      if (respond.setState !== undefined) {
         collectTemplateErrors(
-          validateTemplatesInBody(bodyValue, `${basePath}.respond.body`),
+          validateTemplatesNotAllowed(respond.setState, `${respondPath}.setState`),
           errors,
           filePath,
           ruleId
         );
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        pushError(
+      }
+
+      if (respond.headers !== undefined) {
+        for (const [key, value] of Object.entries(respond.headers)) {
+          collectTemplateErrors(
+            validateTemplatesNotAllowed(value, `${respondPath}.headers.${key}`),
+            errors,
+            filePath,
+            ruleId
+          );
+        }
+      }
+
+      if (respond.bodyFile !== undefined) {
+        collectTemplateErrors(
+          validateTemplatesNotAllowed(respond.bodyFile, `${respondPath}.bodyFile`),
+          errors,
+          filePath,
+          ruleId
+        );
+
+        try {
+          const bodyValue = await readBodyFileValue(filePath, respond.bodyFile);
+          collectTemplateErrors(
+            validateTemplatesInBody(bodyValue, `${respondPath}.body`),
+            errors,
+            filePath,
+            ruleId
+          );
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          pushError(
+            errors,
+            filePath,
+            `${respondPath}.bodyFile`,
+            `bodyFile could not be read for template validation: ${message}`,
+            'error',
+            undefined,
+            undefined,
+            ruleId
+          );
+        }
+      }
+
+      if (respond.body !== undefined) {
+        collectTemplateErrors(
+          validateTemplatesInBody(respond.body, `${respondPath}.body`),
           errors,
           filePath,
-          `${basePath}.respond.bodyFile`,
-          `bodyFile could not be read for template validation: ${message}`,
-          'error',
-          undefined,
-          undefined,
           ruleId
         );
       }
     }
+  }
 
-    if (rule.respond.body !== undefined) {
-      collectTemplateErrors(
-        validateTemplatesInBody(rule.respond.body, `${basePath}.respond.body`),
+  return errors;
+};
+
+export const attachFileLocations = async (errors: ValidationError[]): Promise<void> => {
+  const files = [...new Set(errors.filter((error) => error.line === undefined).map((error) => error.file))];
+
+  for (const file of files) {
+    try {
+      const content = await fs.readFile(file, 'utf-8');
+      attachLocations(
+        errors.filter((error) => error.file === file),
+        parseYamlStrict(file, content)
+      );
+    } catch {
+      // Locations are best-effort; the error itself is still reported.
+    }
+  }
+};
+
+// Data files must be readable, and `respond.data` must name a collection and real params.
+// Data files are always read; references are only checked in rules that are valid themselves.
+const validateScenarioData = async (
+  scenario: ScenarioFile,
+  filePath: string,
+  validRules: Set<number>
+): Promise<ValidationError[]> => {
+  const errors: ValidationError[] = [];
+
+  for (const [name, source] of Object.entries(scenario.data ?? {})) {
+    if (typeof source !== 'string') continue;
+    try {
+      await readDataFile(resolveDataFile(filePath, source));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      pushError(errors, filePath, `data.${name}`, `data file could not be read: ${message}`);
+    }
+  }
+
+  for (const [index, rule] of scenario.rules.entries()) {
+    if (!validRules.has(index)) continue;
+    const declared =
+      rule.match.path !== undefined && !validatePathPattern(rule.match.path) ? pathPatternParams(rule.match.path) : undefined;
+
+    for (const [step, respond] of responseSteps(rule).entries()) {
+      const { data } = respond;
+      if (!data) continue;
+      const dataPath = `rules[${index}].${stepPath(rule, step)}.data`;
+
+      if (!Object.prototype.hasOwnProperty.call(scenario.data ?? {}, data.collection)) {
+        pushError(errors, filePath, `${dataPath}.collection`, `Unknown data collection "${data.collection}"`, 'error', undefined, undefined, rule.id);
+      }
+
+      for (const key of ['lookup', 'filter'] as const) {
+        for (const [field, value] of Object.entries(data[key] ?? {})) {
+          const reference = parseDataReference(value);
+          if (reference?.source !== 'params' || !declared || declared.includes(reference.name)) continue;
+          pushError(
+            errors,
+            filePath,
+            `${dataPath}.${key}.${field}`,
+            `"${reference.name}" is not a {param} segment of match.path`,
+            'error',
+            undefined,
+            undefined,
+            rule.id
+          );
+        }
+      }
+    }
+  }
+
+  return errors;
+};
+
+// A rule waiting for a state nothing ever sets can never match.
+const validateStateNames = (scenario: ScenarioFile, filePath: string): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const reachable = new Set([initialStateOf(scenario)]);
+  for (const rule of scenario.rules) {
+    for (const respond of responseSteps(rule)) {
+      if (respond.setState !== undefined) reachable.add(respond.setState);
+    }
+  }
+
+  for (const [index, rule] of scenario.rules.entries()) {
+    for (const state of [rule.match.state ?? []].flat()) {
+      if (reachable.has(state)) continue;
+      pushError(
         errors,
         filePath,
-        ruleId
+        `rules[${index}].match.state`,
+        `State "${state}" is never entered: it is not the initial state and no response sets it`,
+        'warning',
+        undefined,
+        undefined,
+        rule.id
       );
     }
   }
@@ -525,16 +1114,27 @@ export const validateScenarioFile = async (filePath: string): Promise<Validation
   const errors = [...parseResult.errors, ...rootErrors];
 
   if (rootErrors.length > 0) {
+    attachLocations(errors, parseResult);
     return { errors };
   }
 
   const data = parseResult.data as ScenarioFile;
-  const ruleErrors = data.rules.flatMap((rule, index) => validateRule(rule, filePath, index));
+  const ruleResults = data.rules.map((rule, index) => validateRule(rule, filePath, index));
+  const ruleErrors = ruleResults.flat();
+  const validRules = new Set(
+    ruleResults.flatMap((result, index) => (result.some((entry) => entry.severity === 'error') ? [] : [index]))
+  );
   const idErrors = validateRuleIds(data.rules, filePath);
   const nameErrors = validateScenarioName(data.scenario, filePath);
-  const templateErrors = await validateScenarioTemplates(data, filePath);
+  const templateErrors = await validateScenarioTemplates(data, filePath, validRules);
 
   errors.push(...ruleErrors, ...idErrors, ...nameErrors, ...templateErrors);
+  errors.push(...(await validateScenarioData(data, filePath, validRules)));
+  // Overlap and state analysis assume well-formed rules.
+  if (!errors.some((entry) => entry.severity === 'error')) {
+    errors.push(...lintRuleConflicts(data.rules, filePath), ...validateStateNames(data, filePath));
+  }
+  attachLocations(errors, parseResult);
 
   if (errors.some((entry) => entry.severity === 'error')) {
     return { errors };
@@ -573,7 +1173,8 @@ export const formatValidationErrors = (errors: ValidationError[]): string => {
     .map((error) => {
       const location = error.line !== undefined ? `:${error.line}:${error.column ?? 0}` : '';
       const pathLabel = error.ruleId ? `${error.ruleId}: ${error.path}` : error.path;
-      return `${error.severity.toUpperCase()} ${error.file}${location}\n ○ ${pathLabel}\n   → ${error.message}`;
+      const code = error.code ? ` [${error.code}]` : '';
+      return `${error.severity.toUpperCase()}${code} ${error.file}${location}\n ○ ${pathLabel}\n   → ${error.message}`;
     })
     .join('\n\n');
 };
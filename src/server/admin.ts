@@ -0,0 +1,252 @@
+import { FastifyInstance } from 'fastify';
+import {
+  JOURNAL_SOURCES,
+  JournalFilter,
+  JournalSource,
+  RequestJournal,
+  VerificationExpectation,
+} from '../journal/journal';
+import { EventLogger } from '../logging/event-logger';
+import { isAutoGenScenario } from '../responses/auto-gen';
+import { initialStateOf, MachineFilter, ScenarioMachine, usesStates } from '../state/scenario-machine';
+import { ResourceStore } from '../state/resource-store';
+import { ScenarioRegistry } from '../state/scenario-registry';
+import { ScenarioState } from '../state/scenario-state';
+import { SequenceFilter, SequenceState } from '../state/sequence-state';
+import type { ReloadOutcome } from '../watch/reloader';
+
+export const ADMIN_PREFIX = '/__mockhub';
+
+export type AdminOptions = {
+  journal: RequestJournal;
+  registry: ScenarioRegistry;
+  scenarioState: ScenarioState;
+  eventLogger: EventLogger;
+  sequences: SequenceState;
+  machine: ScenarioMachine;
+  /** Collections of stateful mode; reset restores their seed data. */
+  resources?: ResourceStore;
+  /** Clears per-scenario runtime state such as template counters, response sequences and states. */
+  resetRuntime: () => void;
+  reload?: () => Promise<ReloadOutcome>;
+};
+
+const BOUND_KEYS = ['count', 'atLeast', 'atMost'] as const;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Query strings and JSON bodies both describe filters; only known keys of the right type are kept.
+const toJournalFilter = (input: Record<string, unknown>): JournalFilter | string => {
+  const filter: JournalFilter = {};
+
+  for (const key of ['method', 'path', 'ruleId', 'scenario'] as const) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') return `"${key}" must be a string`;
+    filter[key] = value;
+  }
+
+  if (input.status !== undefined) {
+    const status = Number(input.status);
+    if (!Number.isInteger(status)) return '"status" must be an integer';
+    filter.status = status;
+  }
+
+  if (input.source !== undefined) {
+    if (!JOURNAL_SOURCES.includes(input.source as JournalSource)) {
+      return `"source" must be one of ${JOURNAL_SOURCES.join(', ')}`;
+    }
+    filter.source = input.source as JournalSource;
+  }
+
+  return filter;
+};
+
+const toExpectation = (input: unknown): VerificationExpectation | string => {
+  if (!isPlainObject(input)) return 'Each expectation must be an object';
+  const filter = toJournalFilter(input);
+  if (typeof filter === 'string') return filter;
+
+  const expectation: VerificationExpectation = { ...filter };
+  for (const key of BOUND_KEYS) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || (value as number) < 0) return `"${key}" must be a non-negative integer`;
+    expectation[key] = value as number;
+  }
+  return expectation;
+};
+
+const isKnownScenario = (registry: ScenarioRegistry, name: string): boolean => {
+  return isAutoGenScenario(name) || registry.getScenario(name) !== undefined;
+};
+
+/**
+ * Register the admin API. Everything under ADMIN_PREFIX is reserved: unknown admin
+ * paths answer 404 instead of falling through to scenarios or the proxy.
+ */
+export const registerAdminRoutes = (server: FastifyInstance, options: AdminOptions): void => {
+  const { registry, scenarioState, eventLogger } = options;
+
+  const logAction = (action: string, result: 'ok' | 'failed', scenario?: string): void => {
+    eventLogger.emitEvent({ event: 'admin-action', action, result, scenario });
+  };
+
+  server.get(`${ADMIN_PREFIX}/health`, async () => ({ status: 'ok' }));
+
+  server.get(`${ADMIN_PREFIX}/ready`, async () => ({
+    status: 'ready',
+    scenarios: registry.scenarios.length,
+    routes: registry.routes.length,
+  }));
+
+  server.get(`${ADMIN_PREFIX}/scenarios`, async () => ({
+    active: scenarioState.get() ?? null,
+    scenarios: registry.scenarios.map((scenario) => ({
+      name: scenario.scenario,
+      description: scenario.description,
+      version: scenario.version,
+      rules: scenario.rules.length,
+      file: scenario.sourcePath,
+    })),
+  }));
+
+  server.get(`${ADMIN_PREFIX}/scenarios/active`, async () => ({
+    scenario: scenarioState.get() ?? null,
+  }));
+
+  server.put(`${ADMIN_PREFIX}/scenarios/active`, async (request, reply) => {
+    const body = request.body as { scenario?: unknown } | undefined;
+    const next = body?.scenario;
+
+    if (next !== null && typeof next !== 'string') {
+      logAction('set-scenario', 'failed');
+      return reply.code(400).send({ message: 'Body must be {"scenario": "<name>"} or {"scenario": null}' });
+    }
+
+    if (next && !isKnownScenario(registry, next)) {
+      logAction('set-scenario', 'failed', next);
+      return reply.code(404).send({ message: `Unknown scenario "${next}"` });
+    }
+
+    scenarioState.set(next ?? undefined);
+    logAction('set-scenario', 'ok', next ?? undefined);
+    return { scenario: scenarioState.get() ?? null };
+  });
+
+  server.post(`${ADMIN_PREFIX}/reset`, async () => {
+    options.resetRuntime();
+    options.resources?.reset();
+    logAction('reset', 'ok');
+    return { reset: true };
+  });
+
+  server.delete(`${ADMIN_PREFIX}/sequences`, async (request, reply) => {
+    const query = request.query as Record<string, unknown>;
+    const filter: SequenceFilter = {};
+    for (const key of ['scenario', 'ruleId', 'session'] as const) {
+      const value = query[key];
+      if (value === undefined) continue;
+      if (typeof value !== 'string') {
+        return reply.code(400).send({ message: `"${key}" must be a string` });
+      }
+      filter[key] = value;
+    }
+
+    const cleared = options.sequences.reset(filter);
+    logAction('reset-sequences', 'ok', filter.scenario);
+    return { cleared };
+  });
+
+  // Sessions are listed once they have left the initial state.
+  server.get(`${ADMIN_PREFIX}/states`, async () => ({
+    states: registry.scenarios.filter(usesStates).map((scenario) => {
+      const initialState = initialStateOf(scenario);
+      const entries = options.machine.entries().filter((entry) => entry.scenario === scenario.scenario);
+      return {
+        scenario: scenario.scenario,
+        initialState,
+        state: options.machine.current({ scenario: scenario.scenario }, initialState),
+        sessions: Object.fromEntries(
+          entries.filter((entry) => entry.session !== undefined).map((entry) => [entry.session, entry.state])
+        ),
+      };
+    }),
+  }));
+
+  server.delete(`${ADMIN_PREFIX}/states`, async (request, reply) => {
+    const query = request.query as Record<string, unknown>;
+    const filter: MachineFilter = {};
+    for (const key of ['scenario', 'session'] as const) {
+      const value = query[key];
+      if (value === undefined) continue;
+      if (typeof value !== 'string') {
+        return reply.code(400).send({ message: `"${key}" must be a string` });
+      }
+      filter[key] = value;
+    }
+
+    const cleared = options.machine.reset(filter);
+    logAction('reset-states', 'ok', filter.scenario);
+    return { cleared };
+  });
+
+  server.get(`${ADMIN_PREFIX}/requests`, async (request, reply) => {
+    const filter = toJournalFilter(request.query as Record<string, unknown>);
+    if (typeof filter === 'string') {
+      return reply.code(400).send({ message: filter });
+    }
+    return { requests: options.journal.find(filter) };
+  });
+
+  server.delete(`${ADMIN_PREFIX}/requests`, async () => {
+    const cleared = options.journal.count();
+    options.journal.clear();
+    logAction('clear-requests', 'ok');
+    return { cleared };
+  });
+
+  server.post(`${ADMIN_PREFIX}/requests/verify`, async (request, reply) => {
+    const body = request.body as { expectations?: unknown } | undefined;
+    if (!Array.isArray(body?.expectations)) {
+      return reply.code(400).send({ message: 'Body must be {"expectations": [...]}' });
+    }
+
+    const expectations: VerificationExpectation[] = [];
+    for (const [index, entry] of body.expectations.entries()) {
+      const expectation = toExpectation(entry);
+      if (typeof expectation === 'string') {
+        return reply.code(400).send({ message: `expectations[${index}]: ${expectation}` });
+      }
+      expectations.push(expectation);
+    }
+
+    const result = options.journal.verify(expectations);
+    logAction('verify', result.ok ? 'ok' : 'failed');
+    return result;
+  });
+
+  server.post(`${ADMIN_PREFIX}/reload`, async (_request, reply) => {
+    if (!options.reload) {
+      logAction('reload', 'failed');
+      return reply.code(501).send({ message: 'Reload is not available for this server' });
+    }
+
+    const outcome = await options.reload();
+    logAction('reload', outcome.result === 'applied' ? 'ok' : 'failed');
+
+    if (outcome.result === 'failed') {
+      return reply.code(422).send({ result: outcome.result, message: outcome.message });
+    }
+    return { result: outcome.result, scenarios: outcome.scenarios, routes: outcome.routes };
+  });
+
+  // Not callNotFound(): in proxy mode the not-found handler forwards the request upstream.
+  for (const url of [ADMIN_PREFIX, `${ADMIN_PREFIX}/*`]) {
+    server.all(url, async (request, reply) =>
+      reply.code(404).send({ message: `Unknown admin endpoint ${request.method} ${request.url.split('?')[0]}` })
+    );
+  }
+};
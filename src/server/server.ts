@@ -1,15 +1,34 @@
 import fs from 'node:fs/promises';
-import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { Socket } from 'node:net';
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest, HTTPMethods } from 'fastify';
+import { validateRequest } from '../openapi/request-validation';
+import { ResponseValidationMode, validateResponse } from '../openapi/response-validation';
+import { formatSchemaIssues, isStatusDeclared } from '../openapi/schema';
 import { ApiRoute } from '../openapi/types';
+import { selectData } from '../scenarios/data';
 import { LoadedScenario } from '../scenarios/types';
 import { findMatchingRule } from '../rules/matcher';
+import { responseSteps, stepForCall } from '../rules/sequence';
+import { generateAutoGenResponse, parseAutoGenStatus, ProblemTemplate } from '../responses/auto-gen';
 import { generateHappyPathResponse } from '../responses/generator';
+import { parsePreferHeader } from '../responses/prefer';
+import { ResolvedTimeout, resolveTimeout } from '../responses/timeout';
+import { inferCollections, resolveCrudOperation, ResourceCollection } from '../resources/collections';
+import { executeCrud, validateWrite } from '../resources/crud';
+import { ResourceSeed, ResourceStore } from '../state/resource-store';
+import { ScenarioRegistry } from '../state/scenario-registry';
 import { ScenarioState } from '../state/scenario-state';
+import { initialStateOf, ScenarioMachine, usesStates } from '../state/scenario-machine';
+import { SequenceState } from '../state/sequence-state';
 import { resolveFrom } from '../utils/path';
 import { sleep } from '../utils/sleep';
-import { EventLogger } from '../logging/event-logger';
+import { EventLogger, LogEvent } from '../logging/event-logger';
+import { createRequestJournal, RequestJournal } from '../journal/journal';
 import { createTemplateRuntime, renderTemplates } from '../templating';
 import type { TemplateRuntime } from '../templating/types';
+import type { ProxyRecorder } from '../recording/recorder';
+import type { ReloadOutcome } from '../watch/reloader';
+import { ADMIN_PREFIX, registerAdminRoutes } from './admin';
 
 export type ServerOptions = {
   routes: ApiRoute[];
@@ -18,9 +37,39 @@ export type ServerOptions = {
   port: number;
   eventLogger: EventLogger;
   proxyBaseUrl?: string;
+  recorder?: ProxyRecorder;
+  /** Supplies routes and scenarios at request time; built from `routes`/`scenarios` when omitted. */
+  registry?: ScenarioRegistry;
+  /** Check requests against their operation before any scenario or proxy handling. */
+  validateRequests?: boolean;
+  /** Status for requests that fail validation (default 400). */
+  requestValidationStatus?: 400 | 422;
+  /** Check outgoing responses against the operation; 'fail' replaces violating responses with a 500. */
+  validateResponses?: ResponseValidationMode;
+  /** Receives every handled request; a private journal is created when omitted. */
+  journal?: RequestJournal;
+  /** Body for `auto-gen-NNN` statuses the operation does not declare; false sends none. */
+  autoGenProblem?: ProblemTemplate | false;
+  /** Backs `POST /__mockhub/reload`; the endpoint answers 501 without it. */
+  reload?: () => Promise<ReloadOutcome>;
+  /** Emulate the spec's collections in memory instead of generating CRUD responses. */
+  stateful?: boolean;
+  /** Initial items of the collections in stateful mode, restored on reset. */
+  seed?: ResourceSeed;
 };
 
-const AUTO_GEN_PREFIX = 'auto-gen-';
+const ROUTABLE_METHODS: HTTPMethods[] = ['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'];
+
+const CONTRACT_VIOLATION_HEADER = 'x-mockhub-contract-violation';
+const MAX_DIAGNOSTIC_HEADER_LENGTH = 512;
+const OWN_ANSWERS = new Set([
+  'validation',
+  'timeout',
+  'not-acceptable',
+  'stateful-error',
+  'proxy-error',
+  'auto-gen-problem',
+]);
 
 const getHeaderScenario = (headers: FastifyRequest['headers']): string | undefined => {
   const value = headers['x-mockhub-scenario'];
@@ -28,11 +77,10 @@ const getHeaderScenario = (headers: FastifyRequest['headers']): string | undefin
   return value;
 };
 
-const parseAutoGenStatus = (scenarioName?: string): number | undefined => {
-  if (!scenarioName?.startsWith(AUTO_GEN_PREFIX)) return undefined;
-  const code = Number(scenarioName.replace(AUTO_GEN_PREFIX, ''));
-  if (Number.isFinite(code)) return code;
-  return undefined;
+const getHeaderSession = (headers: FastifyRequest['headers']): string | undefined => {
+  const value = headers['x-mockhub-session'];
+  if (Array.isArray(value)) return value[0];
+  return value || undefined;
 };
 
 const readBodyFile = async (sourceDir: string, bodyFile: string): Promise<unknown> => {
@@ -45,10 +93,6 @@ const readBodyFile = async (sourceDir: string, bodyFile: string): Promise<unknow
   }
 };
 
-const buildScenarioMap = (scenarios: LoadedScenario[]): Map<string, LoadedScenario> => {
-  return new Map(scenarios.map((scenario) => [scenario.scenario, scenario]));
-};
-
 const HOP_BY_HOP_HEADERS = new Set([
   'connection',
   'keep-alive',
@@ -70,6 +114,23 @@ const buildProxyUrl = (baseUrl: string, requestUrl: string): string => {
   return new URL(requestUrl, baseUrl).toString();
 };
 
+const snapshotQuery = (query: unknown): Record<string, string> => {
+  return Object.fromEntries(
+    Object.entries((query ?? {}) as Record<string, unknown>).map(([key, value]) => [
+      key,
+      value === undefined || value === null ? '' : String(value),
+    ])
+  );
+};
+
+const snapshotHeaders = (headers: FastifyRequest['headers']): Record<string, string> => {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key.toLowerCase(), Array.isArray(value) ? value.join(',') : String(value)])
+  );
+};
+
 const buildProxyHeaders = (headers: FastifyRequest['headers']): Record<string, string> => {
   const result: Record<string, string> = {};
   Object.entries(headers).forEach(([key, value]) => {
@@ -111,6 +172,17 @@ const shouldSendBody = (method: string): boolean => {
   return method !== 'GET' && method !== 'HEAD';
 };
 
+type ExecutionComplete = Extract<LogEvent, { event: 'execution-complete' }>;
+type ExecutionSource = ExecutionComplete['source'];
+
+type RequestTrace = {
+  route?: ApiRoute;
+  scenario?: string;
+  ruleId?: string;
+  ruleIndex?: number;
+  source?: ExecutionSource;
+};
+
 type ProxyBody = string | Buffer | Uint8Array;
 
 const serializeRequestBody = (body: unknown): ProxyBody | undefined => {
@@ -183,11 +255,142 @@ const proxyRequest = async (
 
 export const createServer = (options: ServerOptions): FastifyInstance => {
   const server = Fastify({ logger: false });
-  const scenarioMap = buildScenarioMap(options.scenarios);
+  const registry =
+    options.registry ?? new ScenarioRegistry({ routes: options.routes, scenarios: options.scenarios });
+  const journal = options.journal ?? createRequestJournal();
   const templateRuntimes = new Map<string, TemplateRuntime>();
+  const sequences = new SequenceState();
+  const machine = new ScenarioMachine();
+  const resources = options.stateful ? new ResourceStore(options.seed) : undefined;
+  // Collections follow the route table, which a spec reload replaces.
+  const collectionsByRoutes = new WeakMap<ApiRoute[], ResourceCollection[]>();
   const proxyBaseUrl = options.proxyBaseUrl;
   const isProxyEnabled = Boolean(proxyBaseUrl);
 
+  // Reloaded scenarios start with fresh template, sequence and machine state.
+  const resetRuntime = (): void => {
+    templateRuntimes.clear();
+    sequences.reset();
+    machine.reset();
+  };
+  registry.on('change', resetRuntime);
+
+  const recordExchange = (
+    request: FastifyRequest,
+    requestPath: string,
+    query: Record<string, string>,
+    proxied: Extract<ProxyResult, { type: 'success' }>
+  ): void => {
+    if (!options.recorder) return;
+    void options.recorder.record({
+      method: request.method,
+      path: requestPath,
+      query,
+      status: proxied.status,
+      headers: proxied.headers,
+      body: proxied.body,
+    });
+  };
+
+  // What each request resolved to, picked up by the journal once the response is sent.
+  const traces = new WeakMap<FastifyRequest, RequestTrace>();
+
+  const trace = (request: FastifyRequest, update: Partial<RequestTrace>): void => {
+    traces.set(request, { ...traces.get(request), ...update });
+  };
+
+  // Called before reply.send(): the journal's onResponse hook can run inside send().
+  const complete = (
+    request: FastifyRequest,
+    source: ExecutionSource,
+    status: number,
+    details: Pick<ExecutionComplete, 'prefer' | 'example' | 'missingExample'> = {}
+  ): void => {
+    trace(request, { source });
+    options.eventLogger.emitEvent({
+      event: 'execution-complete',
+      source,
+      status,
+      ...details,
+    });
+  };
+
+  const recordJournal = (request: FastifyRequest, status: number, durationMs: number): void => {
+    const requestPath = request.url.split('?')[0];
+    if (requestPath === ADMIN_PREFIX || requestPath.startsWith(`${ADMIN_PREFIX}/`)) return;
+
+    const resolved = traces.get(request);
+    journal.record({
+      timestamp: new Date().toISOString(),
+      method: request.method,
+      path: requestPath,
+      query: snapshotQuery(request.query),
+      headers: snapshotHeaders(request.headers),
+      body: request.body ?? undefined,
+      scenario: resolved?.scenario,
+      ruleId: resolved?.ruleId,
+      ruleIndex: resolved?.ruleIndex,
+      source: resolved?.source ?? 'not-found',
+      status,
+      durationMs: Math.round(durationMs),
+    });
+  };
+
+  // Connections held open by `hang` timeouts; closing the server must not wait for them.
+  const hanging = new Set<Socket>();
+  server.addHook('preClose', async () => {
+    hanging.forEach((socket) => socket.destroy());
+  });
+
+  // Only `respond` answers. The other modes take the connection away from Fastify, whose
+  // onResponse hook then never runs, so the journal entry is written when it closes.
+  const applyTimeout = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    timeout: ResolvedTimeout,
+    rule: { scenarioId: string; ruleIndex: number; ruleId?: string; proxied: boolean }
+  ): void => {
+    options.eventLogger.emitEvent({
+      event: 'timeout-action',
+      ...rule,
+      mode: timeout.mode,
+      afterMs: timeout.afterMs,
+    });
+
+    if (timeout.mode === 'respond') {
+      const status = timeout.status ?? 504;
+      const body = 'body' in timeout ? timeout.body : { message: rule.proxied ? 'Proxy timeout' : 'Mock timeout' };
+      complete(request, 'timeout', status);
+      reply.code(status).send(body);
+      return;
+    }
+
+    complete(request, 'timeout', 0);
+    reply.hijack();
+    const socket = request.raw.socket;
+    reply.raw.once('close', () => {
+      hanging.delete(socket);
+      recordJournal(request, 0, reply.elapsedTime);
+    });
+
+    if (timeout.mode === 'hang') {
+      hanging.add(socket);
+    } else if (timeout.mode === 'reset' && typeof socket.resetAndDestroy === 'function') {
+      socket.resetAndDestroy();
+    } else {
+      // Node before 18.3 cannot send an RST, so `reset` closes the connection there.
+      socket.destroy();
+    }
+  };
+
+  const getCollections = (): ResourceCollection[] => {
+    const current = collectionsByRoutes.get(registry.routes);
+    if (current) return current;
+    const inferred = inferCollections(registry.routes);
+    collectionsByRoutes.set(registry.routes, inferred);
+    return inferred;
+  };
+
   const getTemplateRuntime = (scenarioId: string): TemplateRuntime => {
     const current = templateRuntimes.get(scenarioId);
     if (current) return current;
@@ -205,16 +408,39 @@ export const createServer = (options: ServerOptions): FastifyInstance => {
     const activeScenario = options.scenarioState.get();
     const scenarioName = headerScenario ?? activeScenario;
     const requestPath = request.url.split('?')[0];
-    const querySnapshot = Object.fromEntries(
-      Object.entries(request.query as Record<string, unknown>).map(([key, value]) => [
-        key,
-        value === undefined || value === null ? '' : String(value),
-      ])
-    );
+    const querySnapshot = snapshotQuery(request.query);
     const headerKeys = Object.keys(request.headers).map((key) => key.toLowerCase()).sort();
 
     const autoGenStatus = parseAutoGenStatus(scenarioName);
-    const loadedScenario = scenarioName ? scenarioMap.get(scenarioName) : undefined;
+    const loadedScenario = scenarioName ? registry.getScenario(scenarioName) : undefined;
+    trace(request, {
+      route,
+      scenario: loadedScenario?.scenario ?? (autoGenStatus ? scenarioName : undefined),
+    });
+
+    if (route && options.validateRequests && loadedScenario?.validateRequests !== false) {
+      const violations = validateRequest(route, {
+        path: requestPath,
+        query: request.query as Record<string, unknown>,
+        headers: request.headers,
+        body: request.body,
+      });
+
+      if (violations.length > 0) {
+        const status = options.requestValidationStatus ?? 400;
+        options.eventLogger.emitEvent({
+          event: 'request-validation',
+          method: request.method,
+          path: requestPath,
+          operation: `${route.method} ${route.path}`,
+          status,
+          violations,
+        });
+        complete(request, 'validation', status);
+        reply.code(status).send({ message: 'Request validation failed', errors: violations });
+        return;
+      }
+    }
 
     options.eventLogger.emitEvent({
       event: 'scenario-resolution',
@@ -228,6 +454,11 @@ export const createServer = (options: ServerOptions): FastifyInstance => {
     });
 
     if (loadedScenario) {
+      const session = getHeaderSession(request.headers);
+      const machineKey = { scenario: loadedScenario.scenario, session };
+      const state = usesStates(loadedScenario)
+        ? machine.current(machineKey, initialStateOf(loadedScenario))
+        : undefined;
       const match = findMatchingRule(
         loadedScenario.rules,
         {
@@ -235,6 +466,9 @@ export const createServer = (options: ServerOptions): FastifyInstance => {
           path: requestPath,
           headers: request.headers,
           query: request.query as Record<string, unknown>,
+          body: request.body,
+          route,
+          state,
         },
         ({ rule, ruleIndex, result }) => {
           options.eventLogger.emitEvent({
@@ -255,8 +489,49 @@ export const createServer = (options: ServerOptions): FastifyInstance => {
       );
 
       if (match) {
-        const { respond } = match.rule;
-        const hasMockBody = respond.bodyFile !== undefined || respond.body !== undefined;
+        trace(request, { ruleId: match.rule.id, ruleIndex: match.ruleIndex });
+        const steps = responseSteps(match.rule);
+        const step = Array.isArray(match.rule.respond)
+          ? stepForCall(
+              steps,
+              sequences.advance({
+                scenario: loadedScenario.scenario,
+                ruleIndex: match.ruleIndex,
+                ruleId: match.rule.id,
+                session,
+              }),
+              match.rule.sequence
+            )
+          : undefined;
+        const respond = steps[step ?? 0];
+        const timeout = respond.timeout !== undefined ? resolveTimeout(respond.timeout) : undefined;
+        const timeoutRule = {
+          scenarioId: loadedScenario.scenario,
+          ruleIndex: match.ruleIndex,
+          ruleId: match.rule.id,
+        };
+
+        if (respond.setState !== undefined && state !== undefined) {
+          machine.set(machineKey, respond.setState);
+          options.eventLogger.emitEvent({
+            event: 'state-changed',
+            scenarioId: loadedScenario.scenario,
+            session,
+            from: state,
+            to: respond.setState,
+            ruleIndex: match.ruleIndex,
+            ruleId: match.rule.id,
+          });
+        }
+        // Logged before branching so proxied and timeout steps also report which step ran.
+        options.eventLogger.emitEvent({
+          event: 'scenario-matched',
+          scenarioId: loadedScenario.scenario,
+          ruleIndex: match.ruleIndex,
+          ruleId: match.rule.id,
+          step,
+        });
+        const hasMockBody = respond.bodyFile !== undefined || respond.body !== undefined || respond.data !== undefined;
 
         if (isProxyEnabled && !hasMockBody) {
           const targetUrl = proxyBaseUrl ? buildProxyUrl(proxyBaseUrl, request.url) : undefined;
@@ -268,33 +543,29 @@ export const createServer = (options: ServerOptions): FastifyInstance => {
             ruleIndex: match.ruleIndex,
             ruleId: match.rule.id,
             delayMs: respond.delayMs,
-            timeout: respond.timeout,
+            timeout: timeout?.afterMs,
             status: respond.status,
             targetUrl,
           });
 
-          const proxied = await proxyRequest(request, proxyBaseUrl ?? '', respond.timeout);
-
-          if (proxied.type === 'timeout') {
-            reply.code(504).send({ message: 'Proxy timeout' });
-            options.eventLogger.emitEvent({
-              event: 'execution-complete',
-              source: 'timeout',
-              status: 504,
-            });
-            return;
-          }
-
-          if (proxied.type === 'error') {
+          // The timeout is the upstream's deadline; at 0 the upstream is not contacted at all.
+          const proxied: ProxyResult =
+            timeout?.afterMs === 0
+              ? { type: 'timeout' }
+              : await proxyRequest(request, proxyBaseUrl ?? '', timeout?.afterMs);
+
+          if (proxied.type !== 'success') {
+            if (proxied.type === 'timeout' && timeout) {
+              applyTimeout(request, reply, timeout, { ...timeoutRule, proxied: true });
+              return;
+            }
+            complete(request, 'proxy-error', 502);
             reply.code(502).send({ message: 'Proxy error' });
-            options.eventLogger.emitEvent({
-              event: 'execution-complete',
-              source: 'proxy',
-              status: 502,
-            });
             return;
           }
 
+          recordExchange(request, requestPath, querySnapshot, proxied);
+
           if (respond.delayMs) {
             await sleep(respond.delayMs);
           }
@@ -303,24 +574,14 @@ export const createServer = (options: ServerOptions): FastifyInstance => {
           Object.entries(mergedHeaders).forEach(([key, value]) => reply.header(key, value));
 
           const status = respond.status ?? proxied.status;
+          complete(request, 'proxy', status);
           reply.code(status).send(proxied.body ?? undefined);
-          options.eventLogger.emitEvent({
-            event: 'execution-complete',
-            source: 'proxy',
-            status,
-          });
           return;
         }
 
-        if (respond.timeout !== undefined) {
-          // TODO: Support configurable timeout behaviors beyond fixed 504.
-          await sleep(respond.timeout);
-          reply.code(504).send({ message: 'Mock timeout' });
-          options.eventLogger.emitEvent({
-            event: 'execution-complete',
-            source: 'timeout',
-            status: 504,
-          });
+        if (timeout) {
+          await sleep(timeout.afterMs);
+          applyTimeout(request, reply, timeout, { ...timeoutRule, proxied: false });
           return;
         }
 
@@ -328,11 +589,21 @@ export const createServer = (options: ServerOptions): FastifyInstance => {
           await sleep(respond.delayMs);
         }
 
-        let body = respond.bodyFile
-          ? await readBodyFile(loadedScenario.sourceDir, respond.bodyFile)
-          : respond.body;
-
-        if (body !== undefined) {
+        // Records are sent as stored; templates only apply to body and bodyFile.
+        const selected = respond.data
+          ? selectData(respond.data, loadedScenario.dataSets?.[respond.data.collection] ?? [], respond.status, {
+              params: match.params,
+              query: request.query as Record<string, unknown>,
+            })
+          : undefined;
+        const status = selected?.status ?? respond.status;
+        let body = selected
+          ? selected.body
+          : respond.bodyFile
+            ? await readBodyFile(loadedScenario.sourceDir, respond.bodyFile)
+            : respond.body;
+
+        if (body !== undefined && !selected) {
           const runtime = getTemplateRuntime(loadedScenario.scenario);
           const rendered = renderTemplates(body, runtime);
           body = rendered.value;
@@ -352,7 +623,6 @@ export const createServer = (options: ServerOptions): FastifyInstance => {
           Object.entries(respond.headers).forEach(([key, value]) => reply.header(key, value));
         }
 
-        reply.code(respond.status).send(body ?? undefined);
         if (isProxyEnabled) {
           options.eventLogger.emitEvent({
             event: 'proxy-action',
@@ -362,32 +632,75 @@ export const createServer = (options: ServerOptions): FastifyInstance => {
             ruleIndex: match.ruleIndex,
             ruleId: match.rule.id,
             delayMs: respond.delayMs,
-            timeout: respond.timeout,
-            status: respond.status,
+            status,
           });
         }
-        options.eventLogger.emitEvent({
-          event: 'scenario-matched',
-          scenarioId: loadedScenario.scenario,
-          ruleIndex: match.ruleIndex,
-          ruleId: match.rule.id,
-        });
-        options.eventLogger.emitEvent({
-          event: 'execution-complete',
-          source: 'scenario',
-          status: respond.status,
-        });
+        complete(request, 'scenario', status);
+        reply.code(status).send(body ?? undefined);
         return;
       }
     }
 
     if (autoGenStatus) {
-      reply.code(autoGenStatus).send();
+      const prefer = parsePreferHeader(request.headers.prefer);
+      const generated = generateAutoGenResponse(route, autoGenStatus, {
+        method: request.method,
+        path: requestPath,
+        accept: request.headers.accept,
+        example: prefer?.example,
+        dynamic: prefer?.dynamic,
+        problem: options.autoGenProblem,
+      });
+      // Statuses the operation does not declare get mock-hub's problem body, not the operation's.
+      const source = route && isStatusDeclared(route.responses, autoGenStatus) ? 'auto-gen' : 'auto-gen-problem';
+      complete(request, source, autoGenStatus, {
+        prefer,
+        example: generated.example,
+        missingExample: generated.missingExample,
+      });
+      if (generated.contentType) {
+        reply.type(generated.contentType);
+      }
+      reply.code(autoGenStatus).send(generated.body ?? undefined);
+      return;
+    }
+
+    const crud = resources && route ? resolveCrudOperation(getCollections(), route, requestPath) : undefined;
+    if (resources && crud) {
+      const violations = validateWrite(crud, {
+        path: requestPath,
+        query: request.query as Record<string, unknown>,
+        headers: request.headers,
+        body: request.body,
+      });
+      if (violations.length > 0) {
+        const status = options.requestValidationStatus ?? 400;
+        options.eventLogger.emitEvent({
+          event: 'request-validation',
+          method: request.method,
+          path: requestPath,
+          operation: `${crud.route.method} ${crud.route.path}`,
+          status,
+          violations,
+        });
+        complete(request, 'validation', status);
+        reply.code(status).send({ message: 'Request validation failed', errors: violations });
+        return;
+      }
+
+      const result = executeCrud(resources, crud, request.body);
       options.eventLogger.emitEvent({
-        event: 'execution-complete',
-        source: 'auto-gen',
-        status: autoGenStatus,
+        event: 'resource-action',
+        method: request.method,
+        path: requestPath,
+        collection: crud.collection.path,
+        action: crud.action,
+        id: crud.id,
+        status: result.status,
       });
+      // Missing items and duplicate ids answer 404 and 409 whatever the operation declares.
+      complete(request, result.status >= 400 ? 'stateful-error' : 'stateful', result.status);
+      reply.code(result.status).send(result.body);
       return;
     }
 
@@ -403,58 +716,126 @@ export const createServer = (options: ServerOptions): FastifyInstance => {
       const proxied = await proxyRequest(request, proxyBaseUrl);
 
       if (proxied.type === 'timeout') {
+        complete(request, 'timeout', 504);
         reply.code(504).send({ message: 'Proxy timeout' });
-        options.eventLogger.emitEvent({
-          event: 'execution-complete',
-          source: 'timeout',
-          status: 504,
-        });
         return;
       }
 
       if (proxied.type === 'error') {
+        complete(request, 'proxy-error', 502);
         reply.code(502).send({ message: 'Proxy error' });
-        options.eventLogger.emitEvent({
-          event: 'execution-complete',
-          source: 'proxy',
-          status: 502,
-        });
         return;
       }
 
+      recordExchange(request, requestPath, querySnapshot, proxied);
       Object.entries(proxied.headers).forEach(([key, value]) => reply.header(key, value));
+      complete(request, 'proxy', proxied.status);
       reply.code(proxied.status).send(proxied.body ?? undefined);
-      options.eventLogger.emitEvent({
-        event: 'execution-complete',
-        source: 'proxy',
-        status: proxied.status,
-      });
       return;
     }
 
     if (route) {
-      const generated = generateHappyPathResponse(route.responses);
-      reply.code(generated.status).send(generated.body ?? undefined);
-      options.eventLogger.emitEvent({
-        event: 'execution-complete',
-        source: 'happy-path',
-        status: generated.status,
+      const prefer = parsePreferHeader(request.headers.prefer);
+      const generated = generateHappyPathResponse(route.responses, { ...prefer, accept: request.headers.accept });
+      if (generated.notAcceptable) {
+        complete(request, 'not-acceptable', generated.status, { prefer });
+        reply.code(generated.status).send({ message: 'Not Acceptable', accepted: generated.notAcceptable });
+        return;
+      }
+      complete(request, 'happy-path', generated.status, {
+        prefer,
+        example: generated.example,
+        missingExample: generated.missingExample,
       });
+      if (generated.contentType) {
+        reply.type(generated.contentType);
+      }
+      reply.code(generated.status).send(generated.body ?? undefined);
       return;
     }
 
-    reply.code(404).send({ message: 'Not Found' });
+    reply.callNotFound();
   };
 
-  for (const route of options.routes) {
-    server.route({
-      method: route.method,
-      url: route.fastifyPath,
-      handler: async (request: FastifyRequest, reply: FastifyReply) =>
-        handleRequest(request, reply, route),
+  if (options.validateResponses) {
+    const mode = options.validateResponses;
+
+    server.addHook('onSend', async (request, reply, payload) => {
+      const resolved = traces.get(request);
+      // Validation rejections, timeouts, 406s, proxy failures and the like are mock-hub's own
+      // answers, not the operation's.
+      if (!resolved?.route || (resolved.source && OWN_ANSWERS.has(resolved.source))) return payload;
+      if (payload !== null && payload !== undefined && typeof payload !== 'string' && !Buffer.isBuffer(payload)) {
+        return payload;
+      }
+
+      const status = reply.statusCode;
+      const contentType = reply.getHeader('content-type');
+      const violations = validateResponse(resolved.route, {
+        status,
+        contentType: typeof contentType === 'string' ? contentType : undefined,
+        payload: payload ?? undefined,
+      });
+      if (violations.length === 0) return payload;
+
+      options.eventLogger.emitEvent({
+        event: 'response-contract-violation',
+        method: request.method,
+        path: request.url.split('?')[0],
+        operation: `${resolved.route.method} ${resolved.route.path}`,
+        source: resolved.source,
+        scenarioId: resolved.scenario,
+        ruleId: resolved.ruleId,
+        status,
+        action: mode,
+        violations,
+      });
+
+      if (mode === 'warn') return payload;
+
+      const summary = formatSchemaIssues(violations).replace(/[^\x20-\x7e]/g, '?');
+      reply.code(500);
+      reply.header('content-type', 'application/json; charset=utf-8');
+      reply.header(CONTRACT_VIOLATION_HEADER, summary.slice(0, MAX_DIAGNOSTIC_HEADER_LENGTH));
+      return JSON.stringify({
+        message: 'Response violates the API contract',
+        operation: `${resolved.route.method} ${resolved.route.path}`,
+        status,
+        violations,
+      });
     });
   }
 
+  server.addHook('onResponse', async (request, reply) => {
+    recordJournal(request, reply.statusCode, reply.elapsedTime);
+  });
+
+  registerAdminRoutes(server, {
+    journal,
+    registry,
+    scenarioState: options.scenarioState,
+    eventLogger: options.eventLogger,
+    sequences,
+    machine,
+    resources,
+    resetRuntime,
+    reload: options.reload,
+  });
+
+  // Routes are resolved per request so the registry can swap the route table while listening.
+  server.route({
+    method: ROUTABLE_METHODS,
+    url: '*',
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const route = registry.findRoute(request.method, request.url.split('?')[0]);
+      if (!route && !isProxyEnabled) {
+        reply.callNotFound();
+        return;
+      }
+      await handleRequest(request, reply, route);
+    },
+  });
+
   if (isProxyEnabled) {
     server.setNotFoundHandler((request, reply) => handleRequest(request, reply));
   }
@@ -0,0 +1,73 @@
+import { randomUUID } from 'node:crypto';
+import type { IdType } from '../resources/collections';
+
+export type ResourceItem = Record<string, unknown>;
+
+/** Items per concrete collection path, e.g. `{ "/contracts": [{ "id": 1 }] }`. */
+export type ResourceSeed = Record<string, ResourceItem[]>;
+
+export type ResourceKey = {
+  collectionPath: string;
+  idField: string;
+};
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+/**
+ * In-memory items of every collection used by `--stateful` mode, in insertion order.
+ * Seed data is restored on reset; items are copied in and out so callers cannot mutate them.
+ */
+export class ResourceStore {
+  private collections = new Map<string, ResourceItem[]>();
+
+  public constructor(private readonly seed: ResourceSeed = {}) {
+    this.reset();
+  }
+
+  public list(collectionPath: string): ResourceItem[] {
+    return clone(this.collections.get(collectionPath) ?? []);
+  }
+
+  public get(key: ResourceKey, id: string): ResourceItem | undefined {
+    const item = this.find(key, id);
+    return item ? clone(item) : undefined;
+  }
+
+  /** Add an item, or replace the one with the same id; returns the stored copy. */
+  public put(key: ResourceKey, item: ResourceItem): ResourceItem {
+    const items = this.collections.get(key.collectionPath) ?? [];
+    const id = String(item[key.idField]);
+    const index = items.findIndex((entry) => String(entry[key.idField]) === id);
+    if (index >= 0) items[index] = clone(item);
+    else items.push(clone(item));
+    this.collections.set(key.collectionPath, items);
+    return clone(item);
+  }
+
+  public delete(key: ResourceKey, id: string): boolean {
+    const items = this.collections.get(key.collectionPath) ?? [];
+    const index = items.findIndex((entry) => String(entry[key.idField]) === id);
+    if (index < 0) return false;
+    items.splice(index, 1);
+    return true;
+  }
+
+  /** Next id for a collection: one past the highest numeric id, or a UUID. */
+  public nextId(key: ResourceKey, idType: IdType): string | number {
+    if (idType === 'uuid') return randomUUID();
+    const highest = (this.collections.get(key.collectionPath) ?? [])
+      .map((item) => Number(item[key.idField]))
+      .filter((value) => Number.isInteger(value))
+      .reduce((max, value) => Math.max(max, value), 0);
+    return idType === 'number' ? highest + 1 : String(highest + 1);
+  }
+
+  /** Drop every change and restore the seed data. */
+  public reset(): void {
+    this.collections = new Map(Object.entries(clone(this.seed)));
+  }
+
+  private find(key: ResourceKey, id: string): ResourceItem | undefined {
+    return this.collections.get(key.collectionPath)?.find((entry) => String(entry[key.idField]) === id);
+  }
+}
@@ -0,0 +1,62 @@
+import { responseSteps } from '../rules/sequence';
+import { ScenarioFile } from '../scenarios/types';
+
+export const DEFAULT_INITIAL_STATE = 'initial';
+
+export type MachineKey = {
+  scenario: string;
+  /** Value of the x-mockhub-session header; sessions move through states separately. */
+  session?: string;
+};
+
+export type MachineFilter = {
+  scenario?: string;
+  session?: string;
+};
+
+export type MachineEntry = MachineKey & { state: string };
+
+/** True when a scenario declares an initial state or any rule reads or sets state. */
+export const usesStates = (scenario: ScenarioFile): boolean => {
+  return (
+    scenario.initialState !== undefined ||
+    scenario.rules.some(
+      (rule) => rule.match.state !== undefined || responseSteps(rule).some((step) => step.setState !== undefined)
+    )
+  );
+};
+
+export const initialStateOf = (scenario: ScenarioFile): string => scenario.initialState ?? DEFAULT_INITIAL_STATE;
+
+/** Current state of each stateful scenario, per session; untouched keys are in their initial state. */
+export class ScenarioMachine {
+  private states = new Map<string, MachineEntry>();
+
+  private static id(key: MachineKey): string {
+    return JSON.stringify([key.scenario, key.session ?? null]);
+  }
+
+  public current(key: MachineKey, initial: string): string {
+    return this.states.get(ScenarioMachine.id(key))?.state ?? initial;
+  }
+
+  public set(key: MachineKey, state: string): void {
+    this.states.set(ScenarioMachine.id(key), { ...key, state });
+  }
+
+  public entries(): MachineEntry[] {
+    return [...this.states.values()];
+  }
+
+  /** Return the matching keys to their initial state; returns how many were reset. */
+  public reset(filter: MachineFilter = {}): number {
+    let cleared = 0;
+    for (const [id, entry] of this.states) {
+      if (filter.scenario !== undefined && entry.scenario !== filter.scenario) continue;
+      if (filter.session !== undefined && entry.session !== filter.session) continue;
+      this.states.delete(id);
+      cleared += 1;
+    }
+    return cleared;
+  }
+}
@@ -0,0 +1,79 @@
+import { EventEmitter } from 'node:events';
+import { ApiRoute } from '../openapi/types';
+import { LoadedScenario } from '../scenarios/types';
+import { matchPathTemplate } from '../utils/path';
+
+export type ScenarioSet = {
+  routes: ApiRoute[];
+  scenarios: LoadedScenario[];
+};
+
+type Snapshot = ScenarioSet & {
+  scenarioMap: Map<string, LoadedScenario>;
+};
+
+const countStaticSegments = (routePath: string): number => {
+  return routePath.split('/').filter((segment) => segment && !segment.includes('{')).length;
+};
+
+// Static routes win over templated ones, mirroring Fastify's router.
+const sortRoutes = (routes: ApiRoute[]): ApiRoute[] => {
+  return [...routes].sort((a, b) => {
+    const aStatic = a.path.includes('{') ? 0 : 1;
+    const bStatic = b.path.includes('{') ? 0 : 1;
+    if (aStatic !== bStatic) return bStatic - aStatic;
+    return countStaticSegments(b.path) - countStaticSegments(a.path);
+  });
+};
+
+const buildSnapshot = (set: ScenarioSet): Snapshot => {
+  return {
+    routes: sortRoutes(set.routes),
+    scenarios: set.scenarios,
+    scenarioMap: new Map(set.scenarios.map((scenario) => [scenario.scenario, scenario])),
+  };
+};
+
+/**
+ * Holds the active route table and scenario set. `replace` swaps both in one step,
+ * so a request never sees routes from one load and scenarios from another.
+ */
+export class ScenarioRegistry extends EventEmitter {
+  private snapshot: Snapshot;
+
+  public constructor(set: ScenarioSet) {
+    super();
+    this.snapshot = buildSnapshot(set);
+  }
+
+  public get routes(): ApiRoute[] {
+    return this.snapshot.routes;
+  }
+
+  public get scenarios(): LoadedScenario[] {
+    return this.snapshot.scenarios;
+  }
+
+  public getScenario(name: string): LoadedScenario | undefined {
+    return this.snapshot.scenarioMap.get(name);
+  }
+
+  public findRoute(method: string, requestPath: string): ApiRoute | undefined {
+    // HEAD is answered by the GET operation, as Fastify does for registered routes.
+    const methods = method === 'HEAD' ? ['HEAD', 'GET'] : [method];
+
+    for (const candidate of methods) {
+      const route = this.snapshot.routes.find(
+        (entry) => entry.method === candidate && matchPathTemplate(entry.path, requestPath) !== undefined
+      );
+      if (route) return route;
+    }
+
+    return undefined;
+  }
+
+  public replace(set: ScenarioSet): void {
+    this.snapshot = buildSnapshot(set);
+    this.emit('change', set);
+  }
+}
@@ -0,0 +1,41 @@
+export type SequenceKey = {
+  scenario: string;
+  ruleIndex: number;
+  ruleId?: string;
+  /** Value of the x-mockhub-session header; sessions count their calls separately. */
+  session?: string;
+};
+
+export type SequenceFilter = {
+  scenario?: string;
+  ruleId?: string;
+  session?: string;
+};
+
+type Counter = SequenceKey & { calls: number };
+
+/** Counts the calls each sequenced rule has answered, per scenario, rule and session. */
+export class SequenceState {
+  private counters = new Map<string, Counter>();
+
+  /** Record one more call and return how many came before it. */
+  public advance(key: SequenceKey): number {
+    const id = JSON.stringify([key.scenario, key.ruleIndex, key.session ?? null]);
+    const counter = this.counters.get(id) ?? { ...key, calls: 0 };
+    this.counters.set(id, { ...counter, calls: counter.calls + 1 });
+    return counter.calls;
+  }
+
+  /** Forget the counters matching every given field; returns how many were cleared. */
+  public reset(filter: SequenceFilter = {}): number {
+    let cleared = 0;
+    for (const [id, counter] of this.counters) {
+      if (filter.scenario !== undefined && counter.scenario !== filter.scenario) continue;
+      if (filter.ruleId !== undefined && counter.ruleId !== filter.ruleId) continue;
+      if (filter.session !== undefined && counter.session !== filter.session) continue;
+      this.counters.delete(id);
+      cleared += 1;
+    }
+    return cleared;
+  }
+}
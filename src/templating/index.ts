@@ -1,7 +1,7 @@
 export { TEMPLATE_HELPERS, createTemplateRuntime } from './helpers';
 export { parseTemplateString } from './parser';
 export { TemplateValidationError, TemplateRenderError } from './errors';
-export { renderTemplates } from './render';
+export { escapeTemplates, renderTemplates } from './render';
 export { validateTemplatesInBody, validateTemplatesNotAllowed } from './validation';
 export type {
   TemplateHelperName,
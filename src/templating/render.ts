@@ -62,3 +62,22 @@ export const renderTemplates = (value: unknown, runtime: TemplateRuntime): Templ
 
   return { value, helpers: [] };
 };
+
+/** Escape template syntax in arbitrary data so it is served literally. */
+export const escapeTemplates = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    return value.replace(/(?<!\\){{/g, '\\{{');
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry) => escapeTemplates(entry));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, escapeTemplates(entry)])
+    );
+  }
+
+  return value;
+};
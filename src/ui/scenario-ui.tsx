@@ -1,6 +1,7 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { Box, Text, render } from "ink";
 import SelectInput from "ink-select-input";
+import { DEFAULT_AUTO_GEN_STATUSES } from "../responses/auto-gen";
 
 type SelectItem<T> = {
   key?: string;
@@ -10,29 +11,45 @@ type SelectItem<T> = {
 
 export type ScenarioChoice = string | undefined;
 
+export type ScenarioUIUpdate = {
+  scenarios?: string[];
+  /** auto-gen-NNN entries, which follow the statuses the spec declares. */
+  autoGen?: string[];
+  /** Active scenario changed elsewhere; null is the happy path. */
+  active?: string | null;
+  reload?: { result: "applied" | "failed"; message?: string };
+};
+
+/** Registers a listener for live updates and returns a function that removes it. */
+export type ScenarioUISubscribe = (listener: (update: ScenarioUIUpdate) => void) => () => void;
+
 export const startScenarioUI = (
-  scenarios: string[],
+  initialScenarios: string[],
   current: string | undefined,
-  onSelect: (scenario?: string) => void
+  onSelect: (scenario?: string) => void,
+  subscribe?: ScenarioUISubscribe,
+  initialAutoGen: string[] = DEFAULT_AUTO_GEN_STATUSES.map((status) => `auto-gen-${status}`)
 ): void => {
   const ScenarioApp = () => {
     const [selected, setSelected] = useState<string | undefined>(current);
+    const [scenarios, setScenarios] = useState<string[]>(initialScenarios);
+    const [autoGen, setAutoGen] = useState<string[]>(initialAutoGen);
+    const [reload, setReload] = useState<ScenarioUIUpdate["reload"]>();
+
+    useEffect(() => {
+      if (!subscribe) return undefined;
+      return subscribe((update) => {
+        if (update.scenarios) setScenarios(update.scenarios);
+        if (update.autoGen) setAutoGen(update.autoGen);
+        if (update.active !== undefined) setSelected(update.active ?? undefined);
+        if (update.reload) setReload(update.reload);
+      });
+    }, []);
 
     const items = useMemo<SelectItem<ScenarioChoice>[]>(() => {
       const base: SelectItem<ScenarioChoice>[] = [
         { key: "happy-path", label: "[MockHub] Happy Path (default)", value: undefined },
-        { key: "auto-gen-400", label: "[MockHub] auto-gen-400", value: "auto-gen-400" },
-        { key: "auto-gen-401", label: "[MockHub] auto-gen-401", value: "auto-gen-401" },
-        { key: "auto-gen-403", label: "[MockHub] auto-gen-403", value: "auto-gen-403" },
-        { key: "auto-gen-404", label: "[MockHub] auto-gen-404", value: "auto-gen-404" },
-        { key: "auto-gen-408", label: "[MockHub] auto-gen-408", value: "auto-gen-408" },
-        { key: "auto-gen-409", label: "[MockHub] auto-gen-409", value: "auto-gen-409" },
-        { key: "auto-gen-422", label: "[MockHub] auto-gen-422", value: "auto-gen-422" },
-        { key: "auto-gen-429", label: "[MockHub] auto-gen-429", value: "auto-gen-429" },
-        { key: "auto-gen-500", label: "[MockHub] auto-gen-500", value: "auto-gen-500" },
-        { key: "auto-gen-502", label: "[MockHub] auto-gen-502", value: "auto-gen-502" },
-        { key: "auto-gen-503", label: "[MockHub] auto-gen-503", value: "auto-gen-503" },
-        { key: "auto-gen-504", label: "[MockHub] auto-gen-504", value: "auto-gen-504" },
+        ...autoGen.map((name) => ({ key: name, label: `[MockHub] ${name}`, value: name })),
       ];
 
       const custom = scenarios.map<SelectItem<ScenarioChoice>>((scenario) => ({
@@ -41,7 +58,7 @@ export const startScenarioUI = (
         value: scenario,
       }));
       return [...base, ...custom];
-    }, [scenarios]);
+    }, [scenarios, autoGen]);
 
     return (
       <Box flexDirection="column" padding={1}>
@@ -60,6 +77,12 @@ export const startScenarioUI = (
         <Box marginTop={1}>
           <Text>Active: {selected ?? "Happy Path"}</Text>
         </Box>
+        {reload?.result === "applied" ? (
+          <Text color="green">Reloaded: {scenarios.length} scenario(s)</Text>
+        ) : null}
+        {reload?.result === "failed" ? (
+          <Text color="red">Reload failed, previous scenarios still active: {reload.message}</Text>
+        ) : null}
       </Box>
     );
   };
@@ -17,3 +17,43 @@ export const resolveFrom = (baseDir: string, target: string): string => {
   }
   return path.resolve(baseDir, target);
 };
+
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const trimTrailingSlash = (value: string): string => {
+  if (value.length > 1 && value.endsWith('/')) {
+    return value.slice(0, -1);
+  }
+  return value;
+};
+
+export const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Match a concrete request path against an OpenAPI path template and return the
+// extracted parameters, or undefined when the path does not fit the template.
+export const matchPathTemplate = (
+  template: string,
+  actual: string
+): Record<string, string> | undefined => {
+  const names: string[] = [];
+  const source = trimTrailingSlash(normalizePath(template))
+    .split(/({[^}]+})/)
+    .map((part) => {
+      const param = /^{([^}]+)}$/.exec(part);
+      if (!param) return escapeRegex(part);
+      names.push(param[1]);
+      return '([^/]+)';
+    })
+    .join('');
+  const match = new RegExp(`^${source}$`).exec(trimTrailingSlash(actual));
+  if (!match) return undefined;
+  return Object.fromEntries(
+    names.map((name, index) => [name, safeDecode(match[index + 1])])
+  );
+};
@@ -0,0 +1,82 @@
+import { EventLogger } from '../logging/event-logger';
+import { ScenarioRegistry, ScenarioSet } from '../state/scenario-registry';
+
+export type ReloadOutcome =
+  | { result: 'applied'; files: string[]; scenarios: string[]; routes: number }
+  | { result: 'failed'; files: string[]; message: string };
+
+export type ReloaderOptions = {
+  registry: ScenarioRegistry;
+  /** Build the next set; `reloadSpec` is true when a changed file belongs to the spec. */
+  load: (reloadSpec: boolean) => Promise<ScenarioSet>;
+  isSpecFile?: (file: string) => boolean;
+  eventLogger?: EventLogger;
+  onReload?: (outcome: ReloadOutcome) => void;
+};
+
+export type Reloader = {
+  /** Resolves with the outcome of the reload that picked up `files`. */
+  reload: (files: string[]) => Promise<ReloadOutcome>;
+};
+
+/**
+ * Rebuild the scenario set after file changes and swap it into the registry.
+ * A set that fails to load is discarded and the previous one keeps serving.
+ * Changes that arrive mid-reload are batched into a single follow-up reload.
+ */
+export const createReloader = (options: ReloaderOptions): Reloader => {
+  let running: Promise<void> | undefined;
+  let queued: string[] = [];
+  let waiters: Array<(outcome: ReloadOutcome) => void> = [];
+
+  const runOnce = async (files: string[]): Promise<ReloadOutcome> => {
+    const reloadSpec = files.some((file) => options.isSpecFile?.(file));
+    let outcome: ReloadOutcome;
+
+    try {
+      const next = await options.load(reloadSpec);
+      options.registry.replace(next);
+      outcome = {
+        result: 'applied',
+        files,
+        scenarios: next.scenarios.map((scenario) => scenario.scenario),
+        routes: next.routes.length,
+      };
+    } catch (error) {
+      outcome = {
+        result: 'failed',
+        files,
+        message: error instanceof Error ? error.message : 'Unknown reload error',
+      };
+    }
+
+    options.eventLogger?.emitEvent({ event: 'reload', ...outcome });
+    options.onReload?.(outcome);
+    return outcome;
+  };
+
+  const drain = async (): Promise<void> => {
+    while (waiters.length > 0) {
+      const files = [...new Set(queued)].sort();
+      const batch = waiters;
+      queued = [];
+      waiters = [];
+      const outcome = await runOnce(files);
+      batch.forEach((resolve) => resolve(outcome));
+    }
+    running = undefined;
+  };
+
+  const reload = (files: string[]): Promise<ReloadOutcome> => {
+    const result = new Promise<ReloadOutcome>((resolve) => {
+      queued.push(...files);
+      waiters.push(resolve);
+    });
+    if (!running) {
+      running = drain();
+    }
+    return result;
+  };
+
+  return { reload };
+};
@@ -0,0 +1,130 @@
+import { FSWatcher, watch } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export type FileWatcher = {
+  close: () => void;
+};
+
+export type WatchFilesOptions = {
+  /** Files and directories to watch; directories are watched recursively. */
+  paths: string[];
+  onChange: (files: string[]) => void;
+  debounceMs?: number;
+};
+
+const DEFAULT_DEBOUNCE_MS = 100;
+
+const listDirectories = async (dir: string): Promise<string[]> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => listDirectories(path.join(dir, entry.name)))
+  );
+  return [dir, ...nested.flat()];
+};
+
+/**
+ * Watch files and directory trees, reporting changed paths in debounced batches.
+ * Each directory gets its own non-recursive watcher (recursive fs.watch is not
+ * available on Linux before Node 20), and files are watched through their parent
+ * directory so editors that save by renaming keep being picked up.
+ */
+export const watchFiles = (options: WatchFilesOptions): FileWatcher => {
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const watchers = new Map<string, FSWatcher>();
+  const pending = new Set<string>();
+  const files = new Set<string>();
+  const roots: string[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  const flush = (): void => {
+    timer = undefined;
+    const changed = [...pending].sort();
+    pending.clear();
+    void syncWatchers();
+    options.onChange(changed);
+  };
+
+  const handleEvent = (dir: string, fileName: string | Buffer | null): void => {
+    const changed = fileName ? path.join(dir, fileName.toString()) : dir;
+    const isWatchedFile = files.has(changed);
+    const isInTree = roots.some((root) => changed === root || changed.startsWith(`${root}${path.sep}`));
+    if (!isWatchedFile && !isInTree) return;
+
+    pending.add(changed);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  const addWatcher = (dir: string): void => {
+    if (closed || watchers.has(dir)) return;
+    try {
+      const watcher = watch(dir, (_event, fileName) => handleEvent(dir, fileName));
+      watcher.on('error', () => {
+        watcher.close();
+        watchers.delete(dir);
+      });
+      watchers.set(dir, watcher);
+    } catch {
+      // The directory disappeared between listing and watching; the next sync retries.
+    }
+  };
+
+  // Directory trees change shape as files are added and removed, so watchers are re-synced per batch.
+  const syncWatchers = async (): Promise<void> => {
+    const wanted = new Set<string>();
+
+    for (const file of files) {
+      wanted.add(path.dirname(file));
+    }
+
+    for (const root of roots) {
+      try {
+        for (const dir of await listDirectories(root)) {
+          wanted.add(dir);
+        }
+      } catch {
+        // Missing roots are skipped until they exist again.
+      }
+    }
+
+    for (const [dir, watcher] of watchers) {
+      if (!wanted.has(dir)) {
+        watcher.close();
+        watchers.delete(dir);
+      }
+    }
+    for (const dir of wanted) {
+      addWatcher(dir);
+    }
+  };
+
+  const init = async (): Promise<void> => {
+    for (const target of options.paths) {
+      const resolved = path.resolve(target);
+      const stats = await fs.stat(resolved).catch(() => undefined);
+      if (stats?.isDirectory()) {
+        roots.push(resolved);
+      } else {
+        files.add(resolved);
+      }
+    }
+    await syncWatchers();
+  };
+
+  void init();
+
+  return {
+    close: () => {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+      watchers.clear();
+    },
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { loadFs, resetFs } from "../../helpers/memfs";
+import {
+  findConfigFile,
+  loadConfig,
+  mergeRunConfig,
+  resolveRunConfig,
+} from "../../../src/config/config";
+
+const CONFIG = [
+  "spec: ./api/openapi.yaml",
+  "source: ./scenarios",
+  "port: 4010",
+  "profiles:",
+  "  ci:",
+  "    logging: true",
+  "    scenario: PartnerDown",
+  "  staging-proxy:",
+  "    proxy: https://staging.example.com",
+  "    port: 4020",
+  "",
+].join("\n");
+
+describe("config", () => {
+  describe("config", () => {
+    beforeEach(() => {
+      resetFs();
+    });
+
+    it("should discover the config file in the working directory", () => {
+      loadFs({ "/project/mockhub.config.json": "{}" });
+
+      expect(findConfigFile("/project")).toBe("/project/mockhub.config.json");
+      expect(findConfigFile("/elsewhere")).toBeUndefined();
+    });
+
+    it("should merge the selected profile over the root options and resolve paths", async () => {
+      loadFs({ "/project/mockhub.config.yaml": CONFIG });
+
+      const loaded = await loadConfig(undefined, "/project");
+
+      expect(resolveRunConfig(loaded!, "ci")).toEqual({
+        spec: "/project/api/openapi.yaml",
+        source: "/project/scenarios",
+        port: 4010,
+        logging: true,
+        scenario: "PartnerDown",
+      });
+      expect(resolveRunConfig(loaded!, "staging-proxy")).toMatchObject({
+        proxy: "https://staging.example.com",
+        port: 4020,
+      });
+      expect(() => resolveRunConfig(loaded!, "local")).toThrow(
+        'Unknown profile "local" in /project/mockhub.config.yaml (available: ci, staging-proxy)'
+      );
+    });
+
+    it("should report invalid values with their location", async () => {
+      loadFs({
+        "/project/mockhub.config.yaml": [
+          "spec: ./openapi.yaml",
+          "profiles:",
+          "  ci:",
+          "    port: '4010'",
+          "    scenaro: PartnerDown",
+          "",
+        ].join("\n"),
+      });
+
+      await expect(loadConfig(undefined, "/project")).rejects.toThrow(
+        [
+          "ERROR /project/mockhub.config.yaml:4:11",
+          " ○ profiles.ci.port",
+          '   → "port" must be an integer between 0 and 65535',
+          "",
+          "ERROR /project/mockhub.config.yaml:5:14",
+          " ○ profiles.ci.scenaro",
+          '   → Unknown config key "scenaro"',
+        ].join("\n")
+      );
+    });
+
+    it("should let explicit flags override file values", () => {
+      const merged = mergeRunConfig(
+        { spec: "/project/openapi.yaml", port: 4020, logging: true },
+        { spec: "./other.yaml", port: 4010, logging: false },
+        (key) => key === "spec"
+      );
+
+      expect(merged).toEqual({ spec: "./other.yaml", port: 4020, logging: true });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import { createNullEventLogger } from "../../../src/logging/event-logger";
+import { createRequestJournal } from "../../../src/journal/journal";
+import type { ApiRoute } from "../../../src/openapi/types";
+import type { LoadedScenario } from "../../../src/scenarios/types";
+
+const routes: ApiRoute[] = [
+  {
+    method: "GET",
+    path: "/partners/{id}",
+    fastifyPath: "/partners/:id",
+    operation: {} as ApiRoute["operation"],
+    responses: { "200": { description: "ok" } },
+  },
+];
+
+const scenarios: LoadedScenario[] = [
+  {
+    scenario: "PartnerDown",
+    sourcePath: "/scenarios/partner-down.yaml",
+    sourceDir: "/scenarios",
+    rules: [{ id: "partner-503", match: { path: "/partners/*", method: "GET" }, respond: { status: 503 } }],
+  },
+];
+
+const entry = (method: string, path: string, status: number) => ({
+  timestamp: "2024-01-01T00:00:00.000Z",
+  method,
+  path,
+  query: {},
+  headers: {},
+  source: "happy-path" as const,
+  status,
+  durationMs: 1,
+});
+
+describe("journal", () => {
+  describe("journal", () => {
+    it("should record the resolved scenario, rule and status of each request", async () => {
+      const journal = createRequestJournal();
+      const server = createServer({
+        routes,
+        scenarios,
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger: createNullEventLogger(),
+        journal,
+      });
+
+      await server.inject({ method: "GET", url: "/partners/1?expand=true", headers: { "x-mockhub-scenario": "PartnerDown" } });
+      await server.inject({ method: "GET", url: "/partners/2" });
+      await server.inject({ method: "GET", url: "/unknown" });
+      await server.inject({ method: "GET", url: "/__mockhub/health" });
+
+      expect(journal.find().map(({ id, method, path, query, scenario, ruleId, source, status }) => ({
+        id, method, path, query, scenario, ruleId, source, status,
+      }))).toEqual([
+        {
+          id: 1,
+          method: "GET",
+          path: "/partners/1",
+          query: { expand: "true" },
+          scenario: "PartnerDown",
+          ruleId: "partner-503",
+          source: "scenario",
+          status: 503,
+        },
+        { id: 2, method: "GET", path: "/partners/2", query: {}, source: "happy-path", status: 200 },
+        { id: 3, method: "GET", path: "/unknown", query: {}, source: "not-found", status: 404 },
+      ]);
+      expect(journal.find({ ruleId: "partner-503" })[0].headers["x-mockhub-scenario"]).toBe("PartnerDown");
+      await server.close();
+    });
+
+    it("should filter by method, path pattern, rule id and status", () => {
+      const journal = createRequestJournal();
+      journal.record(entry("GET", "/partners/1", 200));
+      journal.record(entry("POST", "/partners", 201));
+      journal.record({ ...entry("GET", "/partners/2", 503), ruleId: "partner-503" });
+
+      expect(journal.count({ method: "get", path: "/partners/*" })).toBe(2);
+      expect(journal.count({ path: "/partners" })).toBe(1);
+      expect(journal.count({ ruleId: "partner-503" })).toBe(1);
+      expect(journal.count({ status: 201 })).toBe(1);
+    });
+
+    it("should return count mismatches from verify", () => {
+      const journal = createRequestJournal();
+      journal.record(entry("GET", "/partners/1", 200));
+      journal.record(entry("GET", "/partners/2", 200));
+
+      expect(journal.verify([{ method: "GET", path: "/partners/*", count: 2 }])).toEqual({ ok: true, mismatches: [] });
+      expect(journal.verify([
+        { method: "GET", path: "/partners/*", atMost: 1 },
+        { method: "DELETE", path: "/partners/*" },
+      ])).toEqual({
+        ok: false,
+        mismatches: [
+          {
+            expectation: { method: "GET", path: "/partners/*", atMost: 1 },
+            actual: 2,
+            message: "Expected at most 1 request(s) matching method=GET path=/partners/*, got 2",
+          },
+          {
+            expectation: { method: "DELETE", path: "/partners/*" },
+            actual: 0,
+            message: "Expected at least 1 request(s) matching method=DELETE path=/partners/*, got 0",
+          },
+        ],
+      });
+    });
+
+    it("should keep only the most recent entries beyond the limit", () => {
+      const journal = createRequestJournal({ limit: 2 });
+      journal.record(entry("GET", "/a", 200));
+      journal.record(entry("GET", "/b", 200));
+      journal.record(entry("GET", "/c", 200));
+
+      expect(journal.find().map((item) => [item.id, item.path])).toEqual([[2, "/b"], [3, "/c"]]);
+      journal.clear();
+      expect(journal.count()).toBe(0);
+    });
+  });
+});
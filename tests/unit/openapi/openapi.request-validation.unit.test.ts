@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import type { OpenAPIV3 } from "openapi-types";
+import { extractRoutes } from "../../../src/openapi/parser";
+import { validateRequest } from "../../../src/openapi/request-validation";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import { createNullEventLogger } from "../../../src/logging/event-logger";
+import type { LoadedScenario } from "../../../src/scenarios/types";
+
+const spec: OpenAPIV3.Document = {
+  openapi: "3.0.0",
+  info: { title: "Test", version: "1.0.0" },
+  paths: {
+    "/orders/{orderId}/items": {
+      parameters: [{ name: "orderId", in: "path", required: true, schema: { type: "integer" } }],
+      post: {
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer", maximum: 50 } },
+          { name: "tags", in: "query", explode: false, schema: { type: "array", items: { type: "string", enum: ["a", "b"] } } },
+          { name: "X-Tenant", in: "header", required: true, schema: { type: "string" } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["sku", "quantity"],
+                properties: { sku: { type: "string" }, quantity: { type: "integer", minimum: 1 } },
+              },
+            },
+          },
+        },
+        responses: { "201": { description: "created" } },
+      },
+    },
+  },
+};
+
+const [route] = extractRoutes(spec);
+
+describe("openapi", () => {
+  describe("request-validation", () => {
+    it("should accept a request that matches the operation", () => {
+      expect(
+        validateRequest(route, {
+          path: "/orders/42/items",
+          query: { limit: "10", tags: "a,b" },
+          headers: { "x-tenant": "acme", "content-type": "application/json" },
+          body: { sku: "abc", quantity: 2 },
+        })
+      ).toEqual([]);
+    });
+
+    it("should report each parameter and body violation", () => {
+      expect(
+        validateRequest(route, {
+          path: "/orders/abc/items",
+          query: { limit: "99", tags: "a,c" },
+          headers: { "content-type": "application/json" },
+          body: { quantity: 0 },
+        })
+      ).toEqual([
+        { location: "path", name: "orderId", message: "must be integer" },
+        { location: "query", name: "limit", message: "must be <= 50" },
+        { location: "query", name: "tags", pointer: "/1", message: 'must be one of "a", "b"' },
+        { location: "header", name: "X-Tenant", message: "is required" },
+        { location: "body", pointer: "/sku", message: "is required" },
+        { location: "body", pointer: "/quantity", message: "must be >= 1" },
+      ]);
+    });
+
+    it("should reject missing bodies and undeclared content types", () => {
+      const headers = { "x-tenant": "acme" };
+
+      expect(validateRequest(route, { path: "/orders/1/items", query: {}, headers })).toEqual([
+        { location: "body", message: "is required" },
+      ]);
+      expect(
+        validateRequest(route, {
+          path: "/orders/1/items",
+          query: {},
+          headers: { ...headers, "content-type": "text/plain" },
+          body: "sku=abc",
+        })
+      ).toEqual([{ location: "body", message: "Content-Type text/plain is not one of application/json" }]);
+    });
+
+    it("should answer with the configured status unless the scenario opts out", async () => {
+      const scenarios: LoadedScenario[] = [
+        {
+          scenario: "Lenient",
+          validateRequests: false,
+          sourcePath: "/scenarios/lenient.yaml",
+          sourceDir: "/scenarios",
+          rules: [{ match: { path: "/orders/*", method: "POST" }, respond: { status: 202 } }],
+        },
+      ];
+      const server = createServer({
+        routes: [route],
+        scenarios,
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger: createNullEventLogger(),
+        validateRequests: true,
+        requestValidationStatus: 422,
+      });
+      const request = { method: "POST" as const, url: "/orders/1/items", payload: { sku: "abc" } };
+
+      const rejected = await server.inject(request);
+      expect(rejected.statusCode).toBe(422);
+      expect(rejected.json()).toEqual({
+        message: "Request validation failed",
+        errors: [
+          { location: "header", name: "X-Tenant", message: "is required" },
+          { location: "body", pointer: "/quantity", message: "is required" },
+        ],
+      });
+
+      const lenient = await server.inject({ ...request, headers: { "x-mockhub-scenario": "Lenient" } });
+      expect(lenient.statusCode).toBe(202);
+      await server.close();
+    });
+  });
+});
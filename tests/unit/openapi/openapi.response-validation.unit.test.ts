@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from "vitest";
+import type { OpenAPIV3 } from "openapi-types";
+import { extractRoutes } from "../../../src/openapi/parser";
+import { validateResponse } from "../../../src/openapi/response-validation";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import type { LoadedScenario } from "../../../src/scenarios/types";
+
+const spec: OpenAPIV3.Document = {
+  openapi: "3.0.0",
+  info: { title: "Test", version: "1.0.0" },
+  paths: {
+    "/users/{id}": {
+      get: {
+        responses: {
+          "200": {
+            description: "ok",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["id", "name"],
+                  properties: { id: { type: "integer" }, name: { type: "string" } },
+                },
+              },
+            },
+          },
+          "404": { description: "missing" },
+        },
+      },
+    },
+  },
+};
+
+const [route] = extractRoutes(spec);
+
+const scenarios: LoadedScenario[] = [
+  {
+    scenario: "Drifted",
+    sourcePath: "/scenarios/drifted.yaml",
+    sourceDir: "/scenarios",
+    rules: [
+      { id: "bad-user", match: { path: "/users/1", method: "GET" }, respond: { status: 200, body: { id: "1" } } },
+      { id: "teapot", match: { path: "/users/2", method: "GET" }, respond: { status: 418 } },
+    ],
+  },
+];
+
+const buildServer = (validateResponses: "warn" | "fail", proxyBaseUrl?: string) => {
+  const eventLogger = { emitEvent: vi.fn(), onEvent: vi.fn() };
+  const scenarioState = new ScenarioState();
+  scenarioState.set("Drifted");
+  const server = createServer({
+    routes: [route],
+    scenarios,
+    scenarioState,
+    port: 0,
+    eventLogger,
+    validateResponses,
+    proxyBaseUrl,
+  });
+  return { server, eventLogger };
+};
+
+describe("openapi", () => {
+  describe("response-validation", () => {
+    it("should accept a declared status with a matching body", () => {
+      expect(
+        validateResponse(route, { status: 200, contentType: "application/json", payload: '{"id":1,"name":"Ada"}' })
+      ).toEqual([]);
+      expect(validateResponse(route, { status: 404 })).toEqual([]);
+    });
+
+    it("should report undeclared statuses and schema mismatches", () => {
+      expect(validateResponse(route, { status: 500 })).toEqual([{ pointer: "", message: "status 500 is not declared" }]);
+      expect(
+        validateResponse(route, { status: 200, contentType: "application/json", payload: Buffer.from('{"id":"1"}') })
+      ).toEqual([
+        { pointer: "/name", message: "is required" },
+        { pointer: "/id", message: "must be integer" },
+      ]);
+    });
+
+    it("should emit a violation event and keep the response in warn mode", async () => {
+      const { server, eventLogger } = buildServer("warn");
+
+      const response = await server.inject({ method: "GET", url: "/users/1" });
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ id: "1" });
+      expect(eventLogger.emitEvent).toHaveBeenCalledWith({
+        event: "response-contract-violation",
+        method: "GET",
+        path: "/users/1",
+        operation: "GET /users/{id}",
+        source: "scenario",
+        scenarioId: "Drifted",
+        ruleId: "bad-user",
+        status: 200,
+        action: "warn",
+        violations: [
+          { pointer: "/name", message: "is required" },
+          { pointer: "/id", message: "must be integer" },
+        ],
+      });
+      await server.close();
+    });
+
+    it("should replace violating responses with a 500 and a diagnostic header in fail mode", async () => {
+      const { server } = buildServer("fail");
+
+      const response = await server.inject({ method: "GET", url: "/users/2" });
+      expect(response.statusCode).toBe(500);
+      expect(response.headers["x-mockhub-contract-violation"]).toBe("/ status 418 is not declared");
+      expect(response.json()).toEqual({
+        message: "Response violates the API contract",
+        operation: "GET /users/{id}",
+        status: 418,
+        violations: [{ pointer: "", message: "status 418 is not declared" }],
+      });
+
+      const happyPath = await server.inject({
+        method: "GET",
+        url: "/users/3",
+        headers: { "x-mockhub-scenario": "none" },
+      });
+      expect(happyPath.statusCode).toBe(200);
+      await server.close();
+    });
+
+    it("should not check proxy errors and undeclared auto-gen statuses in fail mode", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("connect ECONNREFUSED")));
+      const { server, eventLogger } = buildServer("fail", "http://localhost:8080");
+
+      const proxyError = await server.inject({
+        method: "GET",
+        url: "/users/3",
+        headers: { "x-mockhub-scenario": "none" },
+      });
+      expect(proxyError.statusCode).toBe(502);
+      expect(proxyError.json()).toEqual({ message: "Proxy error" });
+
+      const problem = await server.inject({
+        method: "GET",
+        url: "/users/3",
+        headers: { "x-mockhub-scenario": "auto-gen-503" },
+      });
+      expect(problem.statusCode).toBe(503);
+      expect(problem.headers["content-type"]).toContain("application/problem+json");
+
+      expect(eventLogger.emitEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ event: "response-contract-violation" })
+      );
+      await server.close();
+      vi.unstubAllGlobals();
+    });
+  });
+});
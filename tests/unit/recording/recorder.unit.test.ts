@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { loadFs, resetFs } from "../../helpers/memfs";
+import fs from "node:fs/promises";
+import { parse } from "yaml";
+import { createProxyRecorder } from "../../../src/recording/recorder";
+import { validateScenarioFile } from "../../../src/scenarios/validation";
+
+const readText = async (file: string): Promise<string> => String(await fs.readFile(file, "utf-8"));
+
+const exchange = (overrides: Record<string, unknown> = {}) => ({
+  method: "GET",
+  path: "/contracts/ctr_001",
+  query: {},
+  status: 200,
+  headers: { "content-type": "application/json", date: "Mon, 01 Jan 2024 00:00:00 GMT" },
+  body: Buffer.from(JSON.stringify({ id: "ctr_001", note: "{{literal}}" })),
+  ...overrides,
+});
+
+describe("recording", () => {
+  describe("recorder", () => {
+    beforeEach(() => {
+      resetFs();
+    });
+
+    it("should write a valid scenario file and response body for a proxied exchange", async () => {
+      const recorder = await createProxyRecorder({ outputDir: "/recorded" });
+
+      await recorder.record(exchange());
+      await recorder.record(exchange({ method: "POST", path: "/contracts", query: { dryRun: "true" }, status: 201 }));
+
+      const scenario = parse(await readText("/recorded/recorded.yaml"));
+
+      expect(scenario.scenario).toBe("Recorded");
+      expect(scenario.rules).toEqual([
+        {
+          id: "get-contracts-ctr-001",
+          match: { path: "/contracts/ctr_001", method: "GET" },
+          respond: {
+            status: 200,
+            headers: { "content-type": "application/json" },
+            bodyFile: "responses/get-contracts-ctr-001.json",
+          },
+        },
+        {
+          id: "post-contracts",
+          match: { path: "/contracts", method: "POST", query: { dryRun: "true" } },
+          respond: {
+            status: 201,
+            headers: { "content-type": "application/json" },
+            bodyFile: "responses/post-contracts.json",
+          },
+        },
+      ]);
+      expect(JSON.parse(await readText("/recorded/responses/get-contracts-ctr-001.json"))).toEqual({
+        id: "ctr_001",
+        note: "\\{{literal}}",
+      });
+
+      const validation = await validateScenarioFile("/recorded/recorded.yaml");
+      expect(validation.errors).toEqual([]);
+    });
+
+    it("should record identical requests only once", async () => {
+      const recorder = await createProxyRecorder({ outputDir: "/recorded" });
+
+      await recorder.record(exchange());
+      await recorder.record(exchange({ status: 500 }));
+
+      const scenario = parse(await readText("/recorded/recorded.yaml"));
+      expect(scenario.rules).toHaveLength(1);
+      expect(scenario.rules[0].respond.status).toBe(200);
+    });
+
+    it("should extend an existing recording instead of replacing it", async () => {
+      loadFs({
+        "/recorded/recorded.yaml": [
+          "scenario: Staging",
+          "version: 1.0.0",
+          "rules:",
+          "  - id: get-contracts-ctr-001",
+          "    match:",
+          "      path: /contracts/ctr_001",
+          "      method: GET",
+          "    respond:",
+          "      status: 200",
+        ].join("\n"),
+      });
+
+      const recorder = await createProxyRecorder({ outputDir: "/recorded" });
+      await recorder.record(exchange());
+      await recorder.record(exchange({ path: "/contracts/ctr_002" }));
+
+      const scenario = parse(await readText("/recorded/recorded.yaml"));
+      expect(scenario.scenario).toBe("Staging");
+      expect(scenario.rules.map((rule: { id: string }) => rule.id)).toEqual([
+        "get-contracts-ctr-001",
+        "get-contracts-ctr-002",
+      ]);
+    });
+  });
+});
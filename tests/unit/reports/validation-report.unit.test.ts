@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { formatValidationReport } from "../../../src/reports/validation-report";
+import type { ValidationError } from "../../../src/scenarios/validation";
+
+const errors: ValidationError[] = [
+  {
+    file: "/repo/scenarios/bad.yaml",
+    path: "rules[0].match.method",
+    ruleId: "bad-method",
+    message: '"FETCH" is not a valid HTTP method',
+    severity: "error",
+    line: 7,
+    column: 15,
+  },
+  {
+    file: "/repo/scenarios/warn.yaml",
+    path: "",
+    message: "Unresolved tag",
+    severity: "warning",
+  },
+];
+
+const files = ["/repo/scenarios/bad.yaml", "/repo/scenarios/ok.yaml", "/repo/scenarios/warn.yaml"];
+
+describe("reports", () => {
+  describe("validation-report", () => {
+    it("should emit the validation errors as a JSON array", () => {
+      const output = formatValidationReport({ files, errors }, "json");
+
+      expect(JSON.parse(output)).toEqual(errors);
+    });
+
+    it("should emit one JUnit testcase per file with failures for errors", () => {
+      const output = formatValidationReport({ files, errors, cwd: "/repo" }, "junit");
+
+      expect(output).toContain('<testsuites name="mock-hub" tests="3" failures="1">');
+      expect(output).toContain('name="scenarios/ok.yaml"');
+      expect(output).toContain(
+        '<failure message="&quot;FETCH&quot; is not a valid HTTP method" type="ValidationError">'
+      );
+      expect(output).toContain("<system-out>WARNING /repo/scenarios/warn.yaml");
+    });
+
+    it("should emit SARIF results with relative uris and regions", () => {
+      const output = JSON.parse(formatValidationReport({ files, errors, cwd: "/repo" }, "sarif"));
+      const [first, second] = output.runs[0].results;
+
+      expect(output.version).toBe("2.1.0");
+      expect(first.level).toBe("error");
+      expect(first.locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: "scenarios/bad.yaml" },
+        region: { startLine: 7, startColumn: 15 },
+      });
+      expect(second.level).toBe("warning");
+      expect(second.locations[0].physicalLocation.region).toBeUndefined();
+    });
+
+    it("should summarise counts in the text format", () => {
+      const output = formatValidationReport({ files, errors: [] }, "text");
+
+      expect(output).toBe("✔ 3 file(s) validated: 0 error(s), 0 warning(s)");
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { inferCollections, resolveCrudOperation } from "../../../src/resources/collections";
+import { validateSeedData } from "../../../src/resources/seed";
+import type { ApiRoute } from "../../../src/openapi/types";
+
+const route = (method: ApiRoute["method"], path: string, operation: Partial<ApiRoute["operation"]> = {}): ApiRoute => ({
+  method,
+  path,
+  fastifyPath: path.replace(/{(.*?)}/g, ":$1"),
+  operation: { responses: {}, ...operation },
+  responses: operation.responses ?? { "200": { description: "ok" } },
+});
+
+const json = (schema: object) => ({ content: { "application/json": { schema } } });
+
+const routes: ApiRoute[] = [
+  route("GET", "/contracts", {
+    responses: { "200": { description: "ok", ...json({ type: "object", properties: { items: { type: "array" } } }) } },
+  }),
+  route("POST", "/contracts"),
+  route("GET", "/contracts/{contractId}", {
+    responses: { "200": { description: "ok", ...json({ type: "object", properties: { contractId: { type: "integer" } } }) } },
+  }),
+  route("POST", "/contracts/{contractId}/cancel"),
+  route("GET", "/customers/{customerId}/notes"),
+  route("DELETE", "/customers/{customerId}/notes/{noteId}"),
+  route("GET", "/health"),
+];
+
+describe("resources", () => {
+  describe("collections", () => {
+    it("should infer collections from path pairs with their id and list shape", () => {
+      const collections = inferCollections(routes);
+
+      expect(
+        collections.map(({ path, param, idField, idType, listProperty, operations }) => ({
+          path,
+          param,
+          idField,
+          idType,
+          listProperty,
+          actions: Object.keys(operations),
+        }))
+      ).toEqual([
+        {
+          path: "/contracts",
+          param: "contractId",
+          idField: "contractId",
+          idType: "number",
+          listProperty: "items",
+          actions: ["list", "create", "read"],
+        },
+        {
+          path: "/customers/{customerId}/notes",
+          param: "noteId",
+          idField: "id",
+          idType: "string",
+          listProperty: undefined,
+          actions: ["list", "delete"],
+        },
+      ]);
+    });
+
+    it("should resolve requests to concrete collections and leave other operations alone", () => {
+      const collections = inferCollections(routes);
+
+      expect(resolveCrudOperation(collections, routes[5], "/customers/7/notes/n-1")).toMatchObject({
+        action: "delete",
+        collectionPath: "/customers/7/notes",
+        id: "n-1",
+      });
+      expect(resolveCrudOperation(collections, routes[3], "/contracts/1/cancel")).toBeUndefined();
+    });
+
+    it("should validate seed data and fill in missing ids", () => {
+      const collections = inferCollections(routes);
+
+      expect(
+        validateSeedData({ "/contracts": [{ contractId: 4 }, { name: "new" }] }, collections, "seed.yaml").seed
+      ).toEqual({ "/contracts": [{ contractId: 4 }, { name: "new", contractId: 5 }] });
+
+      const { errors } = validateSeedData(
+        { "/health": [], "/customers/7/notes": [{ id: "a" }, { id: "a" }, "x"] },
+        collections,
+        "seed.yaml"
+      );
+      expect(errors.map(({ path, message }) => ({ path, message }))).toEqual([
+        { path: "/health", message: '"/health" is not a collection in the spec' },
+        { path: "/customers/7/notes[1]", message: 'Duplicate id "a"' },
+        { path: "/customers/7/notes[2]", message: "Seed items must be objects" },
+      ]);
+    });
+  });
+});
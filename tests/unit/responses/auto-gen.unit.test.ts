@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import type { OpenAPIV3 } from "openapi-types";
+import {
+  generateAutoGenResponse,
+  listAutoGenScenarios,
+  parseAutoGenStatus,
+} from "../../../src/responses/auto-gen";
+import { extractRoutes } from "../../../src/openapi/parser";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import { createNullEventLogger } from "../../../src/logging/event-logger";
+
+const spec: OpenAPIV3.Document = {
+  openapi: "3.0.0",
+  info: { title: "Test", version: "1.0.0" },
+  paths: {
+    "/orders/{id}": {
+      get: {
+        responses: {
+          "200": { description: "ok" },
+          "404": { description: "missing" },
+          "418": {
+            description: "teapot",
+            content: { "application/json": { example: { code: "TEAPOT", message: "Short and stout" } } },
+          },
+        },
+      },
+    },
+  },
+};
+
+const [route] = extractRoutes(spec);
+const request = { method: "GET", path: "/orders/1" };
+
+describe("responses", () => {
+  describe("auto-gen", () => {
+    it("should parse auto-gen scenario names", () => {
+      expect(parseAutoGenStatus("auto-gen-418")).toBe(418);
+      expect(parseAutoGenStatus("auto-gen-999")).toBeUndefined();
+      expect(parseAutoGenStatus("auto-gen-4xx")).toBeUndefined();
+      expect(parseAutoGenStatus("PartnerDown")).toBeUndefined();
+    });
+
+    it("should list the default statuses plus the ones the spec declares", () => {
+      const names = listAutoGenScenarios([route]);
+
+      expect(names).toContain("auto-gen-418");
+      expect(names).toContain("auto-gen-500");
+      expect(names).not.toContain("auto-gen-200");
+      expect(names.indexOf("auto-gen-418")).toBeLessThan(names.indexOf("auto-gen-422"));
+    });
+
+    it("should use the declared response for the status", () => {
+      expect(generateAutoGenResponse(route, 418, request)).toEqual({
+        status: 418,
+        body: { code: "TEAPOT", message: "Short and stout" },
+        contentType: "application/json",
+      });
+      expect(generateAutoGenResponse(route, 404, request)).toEqual({ status: 404 });
+    });
+
+    it("should fall back to a problem+json body for undeclared statuses", () => {
+      expect(generateAutoGenResponse(route, 503, request)).toEqual({
+        status: 503,
+        contentType: "application/problem+json",
+        body: {
+          type: "about:blank",
+          title: "Service Unavailable",
+          detail: "mock-hub auto-gen-503 for GET /orders/1",
+          status: 503,
+        },
+      });
+      expect(
+        generateAutoGenResponse(undefined, 500, {
+          ...request,
+          problem: { type: "https://errors.example.com/{status}", detail: "{reason}", retryable: true },
+        }).body
+      ).toEqual({
+        type: "https://errors.example.com/500",
+        title: "Internal Server Error",
+        detail: "Internal Server Error",
+        retryable: true,
+        status: 500,
+      });
+      expect(generateAutoGenResponse(route, 500, { ...request, problem: false })).toEqual({ status: 500 });
+    });
+
+    it("should send the generated body from the server", async () => {
+      const server = createServer({
+        routes: [route],
+        scenarios: [],
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger: createNullEventLogger(),
+      });
+
+      const declared = await server.inject({
+        method: "GET",
+        url: "/orders/1",
+        headers: { "x-mockhub-scenario": "auto-gen-418" },
+      });
+      expect(declared.statusCode).toBe(418);
+      expect(declared.json()).toEqual({ code: "TEAPOT", message: "Short and stout" });
+
+      const undeclared = await server.inject({
+        method: "GET",
+        url: "/orders/1",
+        headers: { "x-mockhub-scenario": "auto-gen-502" },
+      });
+      expect(undeclared.statusCode).toBe(502);
+      expect(undeclared.headers["content-type"]).toBe("application/problem+json; charset=utf-8");
+      expect(undeclared.json()).toMatchObject({ title: "Bad Gateway", status: 502 });
+      await server.close();
+    });
+  });
+});
@@ -90,5 +90,32 @@ describe("responses", () => {
       expect(result.body).toEqual({ id: 123 });
       expect(vi.mocked(JSONSchemaFaker.generate)).toHaveBeenCalled();
     });
+
+    it("should pick the content matching Accept and report the media type", () => {
+      const responses: OpenAPIV3.ResponsesObject = {
+        "200": {
+          description: "ok",
+          content: {
+            "application/json": { example: { ok: true } },
+            "text/plain": { example: "ok" },
+          },
+        },
+      };
+
+      expect(generateHappyPathResponse(responses)).toEqual({
+        status: 200,
+        body: { ok: true },
+        contentType: "application/json",
+      });
+      expect(generateHappyPathResponse(responses, { accept: "text/*" })).toEqual({
+        status: 200,
+        body: "ok",
+        contentType: "text/plain",
+      });
+      expect(generateHappyPathResponse(responses, { accept: "application/xml" })).toEqual({
+        status: 406,
+        notAcceptable: ["application/json", "text/plain"],
+      });
+    });
   });
 });
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import type { OpenAPIV3 } from "openapi-types";
+import { negotiateMediaType, serializeBody } from "../../../src/responses/media-types";
+import { extractRoutes } from "../../../src/openapi/parser";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import { createNullEventLogger } from "../../../src/logging/event-logger";
+
+describe("responses", () => {
+  describe("media-types", () => {
+    it("should prefer JSON when no Accept header is sent", () => {
+      expect(negotiateMediaType(undefined, ["application/xml", "application/json"])).toBe("application/json");
+      expect(negotiateMediaType("", ["text/csv", "text/plain"])).toBe("text/csv");
+    });
+
+    it("should honour q-values, wildcards and exclusions", () => {
+      const declared = ["application/json", "application/xml", "text/csv"];
+
+      expect(negotiateMediaType("application/xml", declared)).toBe("application/xml");
+      expect(negotiateMediaType("text/*, application/json;q=0.5", declared)).toBe("text/csv");
+      expect(negotiateMediaType("*/*", declared)).toBe("application/json");
+      expect(negotiateMediaType("*/*, application/json;q=0", declared)).toBe("application/xml");
+      expect(negotiateMediaType("image/png", declared)).toBeUndefined();
+    });
+
+    it("should serialize XML using the schema's xml hints", () => {
+      const schema: OpenAPIV3.SchemaObject = {
+        type: "object",
+        xml: { name: "order" },
+        properties: {
+          id: { type: "integer", xml: { attribute: true } },
+          items: { type: "array", xml: { wrapped: true }, items: { type: "string", xml: { name: "item" } } },
+          note: { type: "string" },
+        },
+      };
+
+      expect(serializeBody("application/xml", { id: 7, items: ["a", "b"], note: "<fragile>" }, schema)).toBe(
+        '<?xml version="1.0" encoding="UTF-8"?>' +
+          '<order id="7"><items><item>a</item><item>b</item></items><note>&lt;fragile&gt;</note></order>'
+      );
+    });
+
+    it("should serialize CSV, form and plain text bodies", () => {
+      expect(serializeBody("text/csv", [{ id: 1, name: "Ada" }, { id: 2, name: "Lovelace, A." }])).toBe(
+        'id,name\n1,Ada\n2,"Lovelace, A."'
+      );
+      expect(serializeBody("application/x-www-form-urlencoded", { q: "a b", tag: ["x", "y"] })).toBe(
+        "q=a+b&tag=x&tag=y"
+      );
+      expect(serializeBody("text/plain", 42)).toBe("42");
+      expect(serializeBody("text/plain", "<p>as is</p>")).toBe("<p>as is</p>");
+      expect(serializeBody("application/json", { ok: true })).toEqual({ ok: true });
+      expect(serializeBody("application/json", "hello")).toBe('"hello"');
+      expect(serializeBody("application/problem+json", 42)).toBe("42");
+    });
+
+    it("should send string JSON bodies as valid JSON, with and without response validation", async () => {
+      const spec: OpenAPIV3.Document = {
+        openapi: "3.0.0",
+        info: { title: "Test", version: "1.0.0" },
+        paths: {
+          "/greeting": {
+            get: {
+              responses: {
+                "200": {
+                  description: "ok",
+                  content: { "application/json": { schema: { type: "string" }, example: "hello" } },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      for (const validateResponses of [undefined, "fail"] as const) {
+        const server = createServer({
+          routes: extractRoutes(spec),
+          scenarios: [],
+          scenarioState: new ScenarioState(),
+          port: 0,
+          eventLogger: createNullEventLogger(),
+          validateResponses,
+        });
+
+        const response = await server.inject({ method: "GET", url: "/greeting" });
+        expect(response.statusCode).toBe(200);
+        expect(response.headers["content-type"]).toContain("application/json");
+        expect(response.json()).toBe("hello");
+        await server.close();
+      }
+    });
+
+    it("should negotiate happy-path responses in the server", async () => {
+      const spec: OpenAPIV3.Document = {
+        openapi: "3.0.0",
+        info: { title: "Test", version: "1.0.0" },
+        paths: {
+          "/report": {
+            get: {
+              responses: {
+                "200": {
+                  description: "ok",
+                  content: {
+                    "application/json": { example: [{ id: 1 }] },
+                    "text/csv": { example: [{ id: 1 }] },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+      const server = createServer({
+        routes: extractRoutes(spec),
+        scenarios: [],
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger: createNullEventLogger(),
+      });
+
+      const csv = await server.inject({ method: "GET", url: "/report", headers: { accept: "text/csv" } });
+      expect(csv.statusCode).toBe(200);
+      expect(csv.headers["content-type"]).toBe("text/csv");
+      expect(csv.body).toBe("id\n1");
+
+      const rejected = await server.inject({ method: "GET", url: "/report", headers: { accept: "application/xml" } });
+      expect(rejected.statusCode).toBe(406);
+      expect(rejected.json()).toEqual({ message: "Not Acceptable", accepted: ["application/json", "text/csv"] });
+      await server.close();
+    });
+  });
+});
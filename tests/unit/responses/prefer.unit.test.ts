@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from "vitest";
+import type { OpenAPIV3 } from "openapi-types";
+import { parsePreferHeader } from "../../../src/responses/prefer";
+import { generateHappyPathResponse } from "../../../src/responses/generator";
+import { extractRoutes } from "../../../src/openapi/parser";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+
+const responses: OpenAPIV3.ResponsesObject = {
+  "200": {
+    description: "ok",
+    content: {
+      "application/json": {
+        schema: { type: "object", required: ["id"], properties: { id: { type: "integer", minimum: 1000 } } },
+        examples: {
+          basic: { value: { id: 1 } },
+          premium: { value: { id: 2, tier: "gold" } },
+        },
+      },
+    },
+  },
+  "404": {
+    description: "missing",
+    content: { "application/json": { examples: { notFound: { value: { message: "No such user" } } } } },
+  },
+  "5XX": { description: "failure", content: { "application/json": { example: { message: "Upstream failed" } } } },
+};
+
+describe("responses", () => {
+  describe("prefer", () => {
+    it("should parse code, example and dynamic preferences", () => {
+      expect(parsePreferHeader('code=404, example="notFound", dynamic=true')).toEqual({
+        code: 404,
+        example: "notFound",
+        dynamic: true,
+      });
+      expect(parsePreferHeader("return=minimal; code=abc")).toBeUndefined();
+      expect(parsePreferHeader(undefined)).toBeUndefined();
+    });
+
+    it("should pick the declared response for a preferred status", () => {
+      expect(generateHappyPathResponse(responses, { code: 404 })).toMatchObject({
+        status: 404,
+        body: { message: "No such user" },
+        example: "notFound",
+      });
+      expect(generateHappyPathResponse(responses, { code: 503 })).toMatchObject({
+        status: 503,
+        body: { message: "Upstream failed" },
+      });
+      expect(generateHappyPathResponse(responses, { code: 418 })).toEqual({ status: 418 });
+    });
+
+    it("should pick a named example or generate from the schema", () => {
+      expect(generateHappyPathResponse(responses)).toMatchObject({ body: { id: 1 }, example: "basic" });
+      expect(generateHappyPathResponse(responses, { example: "premium" })).toMatchObject({
+        body: { id: 2, tier: "gold" },
+        example: "premium",
+      });
+
+      const dynamic = generateHappyPathResponse(responses, { dynamic: true });
+      expect(dynamic.example).toBeUndefined();
+      expect((dynamic.body as { id: number }).id).toBeGreaterThanOrEqual(1000);
+    });
+
+    it("should report a named example the response does not declare", () => {
+      expect(generateHappyPathResponse(responses, { example: "missing" })).toMatchObject({
+        body: { id: 1 },
+        example: "basic",
+        missingExample: "missing",
+      });
+      expect(generateHappyPathResponse(responses, { example: "premium" }).missingExample).toBeUndefined();
+    });
+
+    it("should log the preference in execution-complete", async () => {
+      const spec: OpenAPIV3.Document = {
+        openapi: "3.0.0",
+        info: { title: "Test", version: "1.0.0" },
+        paths: { "/users/{id}": { get: { responses } } },
+      };
+      const eventLogger = { emitEvent: vi.fn(), onEvent: vi.fn() };
+      const server = createServer({
+        routes: extractRoutes(spec),
+        scenarios: [],
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger,
+      });
+
+      const response = await server.inject({
+        method: "GET",
+        url: "/users/1",
+        headers: { prefer: "code=404, example=notFound" },
+      });
+      expect(response.statusCode).toBe(404);
+      expect(response.json()).toEqual({ message: "No such user" });
+      expect(eventLogger.emitEvent).toHaveBeenCalledWith({
+        event: "execution-complete",
+        source: "happy-path",
+        status: 404,
+        prefer: { code: 404, example: "notFound" },
+        example: "notFound",
+      });
+
+      await server.inject({ method: "GET", url: "/users/1", headers: { prefer: "example=missing" } });
+      expect(eventLogger.emitEvent).toHaveBeenCalledWith({
+        event: "execution-complete",
+        source: "happy-path",
+        status: 200,
+        prefer: { example: "missing" },
+        example: "basic",
+        missingExample: "missing",
+      });
+      await server.close();
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { bodyMismatchReason, validateBodyMatch } from "../../../src/rules/body-matcher";
+import { findMatchingRule, type RuleEvaluation } from "../../../src/rules/matcher";
+import type { ScenarioRule } from "../../../src/scenarios/types";
+
+const contract = {
+  customer: { id: "c-1", tier: "gold" },
+  amount: 12500,
+  currency: "EUR",
+  lines: [{ sku: "a/b", qty: 1 }, { sku: "c", qty: 3 }],
+};
+
+describe("rules", () => {
+  describe("body-matcher", () => {
+    it("should match partial objects and report the first mismatching pointer", () => {
+      expect(bodyMismatchReason({ customer: { tier: "gold" }, currency: "EUR" }, contract)).toBeUndefined();
+      expect(bodyMismatchReason({ customer: { tier: "silver" } }, contract)).toBe("body mismatch at /customer/tier");
+      expect(bodyMismatchReason({ lines: [{ sku: "a/b" }] }, contract)).toBe("body mismatch at /lines");
+      expect(bodyMismatchReason({ currency: "EUR" }, undefined)).toBe("body missing");
+    });
+
+    it("should evaluate JSONPath and JSON pointer expressions with operators", () => {
+      expect(bodyMismatchReason({ "$.amount": { gt: 10000 } }, contract)).toBeUndefined();
+      expect(bodyMismatchReason({ "$.amount": { gt: 20000 } }, contract)).toBe("body $.amount not > 20000");
+      expect(bodyMismatchReason({ "$.lines[*].qty": { gte: 3 } }, contract)).toBeUndefined();
+      expect(bodyMismatchReason({ "$['customer'].tier": { in: ["gold", "platinum"] } }, contract)).toBeUndefined();
+      expect(bodyMismatchReason({ "/lines/0/sku": "a/b" }, contract)).toBeUndefined();
+      expect(bodyMismatchReason({ "/customer/id": { regex: "^x-" } }, contract)).toBe(
+        "body /customer/id does not match /^x-/"
+      );
+      expect(bodyMismatchReason({ "$.discount": { exists: false } }, contract)).toBeUndefined();
+      expect(bodyMismatchReason({ "$.discount": { exists: true } }, contract)).toBe("body $.discount missing");
+      expect(bodyMismatchReason({ "$.currency": "EUR" }, JSON.stringify(contract))).toBeUndefined();
+    });
+
+    it("should match absent and exists: false conditions when the request has no body", () => {
+      expect(bodyMismatchReason({ "$.discount": { absent: true } }, undefined)).toBeUndefined();
+      expect(bodyMismatchReason({ "/discount": { exists: false } }, "")).toBeUndefined();
+      expect(bodyMismatchReason({ "$": { absent: true } }, null)).toBeUndefined();
+      expect(bodyMismatchReason({ "$.discount": { exists: true } }, undefined)).toBe("body missing");
+      expect(bodyMismatchReason({ "$.discount": { absent: true }, currency: "EUR" }, undefined)).toBe("body missing");
+    });
+
+    it("should reject unsupported expressions and invalid operators", () => {
+      expect(validateBodyMatch({ "$..amount": 1, "$.amount": { gt: "big" }, "/ok": { regex: "(" }, plain: {} })).toEqual([
+        { key: "$..amount", message: '"$..amount" is not a supported JSONPath expression' },
+        { key: "$.amount", message: '"gt" must be a number' },
+        { key: "/ok", message: '"regex" is not a valid regular expression: (' },
+      ]);
+    });
+
+    it("should select rules by body and report why others were skipped", () => {
+      const rules: ScenarioRule[] = [
+        { id: "created", match: { path: "/contracts", method: "POST" }, respond: { status: 201 } },
+        {
+          id: "too-large",
+          match: { path: "/contracts", method: "POST", body: { "$.amount": { gt: 10000 } } },
+          respond: { status: 422 },
+        },
+      ];
+      const evaluations: Array<{ ruleId?: string; result: RuleEvaluation }> = [];
+      const request = { method: "POST", path: "/contracts", headers: {}, query: {} };
+
+      const large = findMatchingRule(rules, { ...request, body: contract }, ({ rule, result }) =>
+        evaluations.push({ ruleId: rule.id, result })
+      );
+      expect(large?.rule.id).toBe("too-large");
+
+      const small = findMatchingRule(rules, { ...request, body: { ...contract, amount: 500 } }, ({ rule, result }) =>
+        evaluations.push({ ruleId: rule.id, result })
+      );
+      expect(small?.rule.id).toBe("created");
+      expect(evaluations[3]).toEqual({
+        ruleId: "too-large",
+        result: { matched: false, reason: "body $.amount not > 10000" },
+      });
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { findMatchingRule } from "../../../src/rules/matcher";
+import { parse } from "yaml";
+import { findMatchingRule, matchPathPattern, matchesPath, validatePathPattern } from "../../../src/rules/matcher";
 import type { ScenarioRule } from "../../../src/scenarios/types";
 
 const rule = (overrides: Partial<ScenarioRule>): ScenarioRule => ({
@@ -75,5 +76,171 @@ describe("rules", () => {
 
       expect(match?.rule.id).toBe("more-specific");
     });
+
+    it("should apply header and query operators to every value of repeated parameters", () => {
+      const rules: ScenarioRule[] = [
+        {
+          id: "beta-mobile",
+          match: {
+            path: "/contracts",
+            headers: {
+              "user-agent": { contains: "mobile", ignoreCase: true },
+              authorization: { startsWith: "Bearer " },
+              "x-debug": { absent: true },
+            },
+            query: { status: { oneOf: ["open", "draft"] }, limit: { gt: 50 } },
+          },
+          respond: { status: 200 },
+        },
+      ];
+      const reasons: Array<string | undefined> = [];
+      const request = (headers: Record<string, string>, query: Record<string, unknown>) =>
+        findMatchingRule(rules, { method: "GET", path: "/contracts", headers, query }, ({ result }) =>
+          reasons.push(result.reason)
+        );
+      const headers = { "user-agent": "Acme Mobile/2.1", authorization: "Bearer abc" };
+
+      expect(request(headers, { status: ["closed", "draft"], limit: "100" })?.rule.id).toBe("beta-mobile");
+      expect(request(headers, { status: "closed", limit: "100" })).toBeUndefined();
+      expect(request(headers, { status: "open", limit: "10" })).toBeUndefined();
+      expect(request({ ...headers, "x-debug": "1" }, { status: "open", limit: "100" })).toBeUndefined();
+      expect(request({ "user-agent": "Acme Mobile" }, { status: "open", limit: "100" })).toBeUndefined();
+      expect(reasons.slice(1)).toEqual([
+        'query status not one of ["open","draft"]',
+        "query limit not > 50",
+        "header x-debug present",
+        "header authorization missing",
+      ]);
+    });
+
+    it("should compare number and boolean operands with query and header strings", () => {
+      const match = parse(
+        [
+          "path: /contracts",
+          "query:",
+          "  page: { equals: 1 }",
+          "  size: { oneOf: [10, 20] }",
+          "headers:",
+          "  x-beta: { in: [true] }",
+        ].join("\n")
+      );
+      const rules: ScenarioRule[] = [{ id: "paged", match, respond: { status: 200 } }];
+      const request = (query: Record<string, unknown>) =>
+        findMatchingRule(rules, { method: "GET", path: "/contracts", headers: { "x-beta": "true" }, query });
+
+      expect(request({ page: "1", size: "20" })?.rule.id).toBe("paged");
+      expect(request({ page: "2", size: "20" })).toBeUndefined();
+      expect(request({ page: "1", size: "30" })).toBeUndefined();
+    });
+
+    it("should combine conditions with anyOf, allOf and not", () => {
+      const rules: ScenarioRule[] = [
+        {
+          id: "beta-non-premium",
+          match: {
+            path: "/contracts",
+            anyOf: [{ headers: { "x-beta": null } }, { query: { beta: "1" } }],
+            not: { headers: { "x-user-type": "premium" } },
+          },
+          respond: { status: 503 },
+        },
+        { id: "fallback", match: { path: "/contracts" }, respond: { status: 200 } },
+      ];
+      const reasons: Array<string | undefined> = [];
+      const request = (headers: Record<string, string>, query: Record<string, string> = {}) =>
+        findMatchingRule(rules, { method: "GET", path: "/contracts", headers, query }, ({ rule, result }) => {
+          if (rule.id === "beta-non-premium") reasons.push(result.reason);
+        })?.rule.id;
+
+      expect(request({ "x-beta": "on" })).toBe("beta-non-premium");
+      expect(request({}, { beta: "1" })).toBe("beta-non-premium");
+      expect(request({}, { beta: "0" })).toBe("fallback");
+      expect(request({ "x-beta": "on", "x-user-type": "premium" })).toBe("fallback");
+      expect(reasons.slice(2)).toEqual([
+        "anyOf: [0] header x-beta missing; [1] query beta mismatch",
+        "not: excluded condition matched",
+      ]);
+
+      const allOf = findMatchingRule(
+        [{ id: "all", match: { path: "/**", allOf: [{ method: "POST" }, { path: "/contracts/*" }] }, respond: { status: 200 } }],
+        { method: "POST", path: "/invoices/1", headers: {}, query: {} },
+        ({ result }) => reasons.push(result.reason)
+      );
+      expect(allOf).toBeUndefined();
+      expect(reasons[reasons.length - 1]).toBe("allOf[1]: path mismatch");
+    });
+
+    it("should let an explicit priority override specificity", () => {
+      const request = { method: "GET", path: "/contracts/1", headers: {}, query: {} };
+      const specific: ScenarioRule = { id: "specific", match: { path: "/contracts/1", method: "GET" }, respond: { status: 200 } };
+      const broad: ScenarioRule = { id: "broad", match: { path: "/contracts/*" }, respond: { status: 503 } };
+
+      expect(findMatchingRule([broad, specific], request)?.rule.id).toBe("specific");
+      expect(findMatchingRule([{ ...broad, priority: 1 }, specific], request)?.rule.id).toBe("broad");
+      expect(findMatchingRule([broad, { ...specific, priority: -1 }], request)?.rule.id).toBe("broad");
+    });
+
+    it("should extract {param} segments and support * and ** wildcards", () => {
+      expect(matchPathPattern("/contracts/{contractId}/items", "/contracts/ctr%5F404/items/")).toEqual({
+        contractId: "ctr_404",
+      });
+      expect(matchPathPattern("/contracts/{contractId}/items", "/contracts/1/2/items")).toBeUndefined();
+      expect(matchesPath("/contracts/*/items/*/notes", "/contracts/1/items/2/notes")).toBe(true);
+      expect(matchesPath("/contracts/*/items", "/contracts/1/2/items")).toBe(false);
+      expect(matchesPath("/contracts/**/notes", "/contracts/1/items/2/notes")).toBe(true);
+      expect(matchesPath("/files/*.json", "/files/report.json")).toBe(true);
+      // A trailing * still matches the rest of the path.
+      expect(matchesPath("/contracts/*", "/contracts/1/items")).toBe(true);
+      expect(matchesPath("/contracts*", "/contracts/1")).toBe(true);
+      expect(matchesPath("/contracts*", "/contracts-archive/1")).toBe(true);
+      expect(matchesPath("/contracts*", "/invoices/1")).toBe(false);
+    });
+
+    it("should report invalid path patterns", () => {
+      expect(validatePathPattern("/contracts/{contractId}/**")).toBeUndefined();
+      expect(validatePathPattern("/contracts/x**")).toBe("** must be a whole path segment");
+      expect(validatePathPattern("/a/{id}/b/{id}")).toBe('path parameter "{id}" is used more than once');
+      expect(validatePathPattern("/a/{id")).toBe('unbalanced braces in path segment "{id"');
+    });
+
+    it("should constrain extracted params and prefer the constrained rule", () => {
+      const rules = [
+        rule({ id: "any-contract", match: { path: "/contracts/{contractId}/items", method: "GET" } }),
+        rule({
+          id: "missing-contract",
+          match: { path: "/contracts/{contractId}/items", method: "GET", params: { contractId: "ctr_404" } },
+        }),
+        rule({ id: "wildcard", match: { path: "/contracts/*/items", method: "GET" } }),
+      ];
+      const request = (path: string) => ({ method: "GET", path, headers: {}, query: {} });
+      const reasons: Array<string | undefined> = [];
+
+      expect(findMatchingRule(rules, request("/contracts/ctr_404/items"))?.rule.id).toBe("missing-contract");
+      expect(
+        findMatchingRule(rules, request("/contracts/ctr_1/items"), ({ result }) => reasons.push(result.reason))?.rule.id
+      ).toBe("any-contract");
+      expect(reasons).toContain("param contractId mismatch");
+    });
+
+    it("should match rules by operationId and tags of the resolved route", () => {
+      const route = {
+        method: "POST" as const,
+        path: "/v2/payments/{paymentId}/capture",
+        fastifyPath: "/v2/payments/:paymentId/capture",
+        operation: { operationId: "capturePayment", tags: ["payments"], responses: {} },
+        responses: {},
+      };
+      const rules = [
+        rule({ id: "payments-down", match: { tags: ["payments", "billing"] } }),
+        rule({ id: "capture-declined", match: { operationId: "capturePayment", params: { paymentId: "pay_1" } } }),
+      ];
+      const request = (path: string) => ({ method: "POST", path, headers: {}, query: {}, route });
+
+      expect(findMatchingRule(rules, request("/v2/payments/pay_1/capture"))?.rule.id).toBe("capture-declined");
+      expect(findMatchingRule(rules, request("/v2/payments/pay_2/capture"))?.rule.id).toBe("payments-down");
+      expect(
+        findMatchingRule(rules, { method: "POST", path: "/v2/payments/pay_1/capture", headers: {}, query: {} })
+      ).toBeUndefined();
+    });
   });
 });
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { loadFs, resetFs } from "../../helpers/memfs";
+import fs from "node:fs/promises";
+import { parse } from "yaml";
+import { scaffoldScenarios, toRulePath } from "../../../src/scaffold/init";
+import { validateScenarioFile } from "../../../src/scenarios/validation";
+import type { ApiRoute } from "../../../src/openapi/types";
+
+const routes: ApiRoute[] = [
+  {
+    method: "GET",
+    path: "/contracts/{contractId}",
+    fastifyPath: "/contracts/:contractId",
+    operation: { operationId: "getContract", responses: {} },
+    responses: {
+      "200": { description: "ok" },
+      "404": {
+        description: "not found",
+        content: { "application/json": { example: { error: "missing {{id}}" } } },
+      },
+      "503": { description: "down" },
+    },
+  },
+  {
+    method: "POST",
+    path: "/contracts",
+    fastifyPath: "/contracts",
+    operation: { responses: {} },
+    responses: {
+      "201": { description: "created" },
+      "503": { description: "down" },
+      default: { description: "error" },
+    },
+  },
+];
+
+describe("scaffold", () => {
+  describe("init", () => {
+    beforeEach(() => {
+      resetFs();
+    });
+
+    it("should generate one valid scenario per declared non-2xx status", async () => {
+      const result = await scaffoldScenarios({ routes, outputDir: "/mocks" });
+
+      expect(result.scenarios).toEqual([
+        { scenario: "Http404NotFound", status: 404, file: "scenarios/http404-not-found.yaml", rules: 1 },
+        {
+          scenario: "Http503ServiceUnavailable",
+          status: 503,
+          file: "scenarios/http503-service-unavailable.yaml",
+          rules: 2,
+        },
+      ]);
+
+      const unavailable = parse(
+        String(await fs.readFile("/mocks/scenarios/http503-service-unavailable.yaml", "utf-8"))
+      );
+      expect(unavailable.rules).toEqual([
+        { id: "get-contract-503", match: { path: "/contracts/{contractId}", method: "GET" }, respond: { status: 503 } },
+        { id: "post-contracts-503", match: { path: "/contracts", method: "POST" }, respond: { status: 503 } },
+      ]);
+
+      const notFound = await validateScenarioFile("/mocks/scenarios/http404-not-found.yaml");
+      expect(notFound.errors).toEqual([]);
+      expect(notFound.scenario?.rules[0].respond.bodyFile).toBe("../responses/get-contract-404.json");
+      expect(JSON.parse(String(await fs.readFile("/mocks/responses/get-contract-404.json", "utf-8")))).toEqual({
+        error: "missing \\{{id}}",
+      });
+      expect(String(await fs.readFile("/mocks/README.md", "utf-8"))).toContain("| 503 | `Http503ServiceUnavailable` | 2 |");
+    });
+
+    it("should refuse to write into a non-empty directory without force", async () => {
+      loadFs({ "/mocks/keep.yaml": "scenario: Keep" });
+
+      await expect(scaffoldScenarios({ routes, outputDir: "/mocks" })).rejects.toThrow(
+        'Output directory "/mocks" is not empty (use --force to overwrite)'
+      );
+    });
+
+    it("should collapse path parameters into a single wildcard", () => {
+      expect(toRulePath("/contracts/{contractId}/items")).toBe("/contracts/{contractId}/items");
+      expect(toRulePath("/a/{x}/b/{y y}")).toBe("/a/{x}/b/*");
+      expect(toRulePath("/health")).toBe("/health");
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { validateRuleBody } from "../../../src/scenarios/body-contract";
+import type { ApiRoute } from "../../../src/openapi/types";
+import type { LoadedScenario, ScenarioRule } from "../../../src/scenarios/types";
+
+const routes: ApiRoute[] = [
+  {
+    method: "POST",
+    path: "/contracts",
+    fastifyPath: "/contracts",
+    operation: {} as ApiRoute["operation"],
+    responses: {
+      "201": {
+        description: "created",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["id", "total"],
+              properties: {
+                id: { type: "string", format: "uuid" },
+                total: { type: "number" },
+                note: { type: "string", nullable: true },
+                status: { type: "string", enum: ["active", "closed"] },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+];
+
+const scenario: LoadedScenario = {
+  scenario: "Contract",
+  rules: [],
+  sourcePath: "/scenarios/contract.yaml",
+  sourceDir: "/scenarios",
+};
+
+const rule = (body: unknown): ScenarioRule => ({
+  id: "create",
+  match: { path: "/contracts", method: "POST" },
+  respond: { status: 201, body },
+});
+
+describe("scenarios", () => {
+  describe("body contract", () => {
+    it("should accept bodies that match the response schema including templates and nullable", async () => {
+      const errors = await validateRuleBody(
+        scenario,
+        rule({ id: "{{uuid}}", total: 10, note: null, status: "active" }),
+        0,
+        routes
+      );
+
+      expect(errors).toEqual([]);
+    });
+
+    it("should report mismatches with JSON pointers and dotted paths", async () => {
+      const errors = await validateRuleBody(
+        scenario,
+        rule({ id: "{{uuid}}", total: "{{increment}}", status: "pending" }),
+        0,
+        routes
+      );
+
+      expect(errors.map((error) => [error.path, error.code])).toEqual([
+        ["rules[0].respond.body.total", "spec/response-body-mismatch"],
+        ["rules[0].respond.body.status", "spec/response-body-mismatch"],
+      ]);
+      expect(errors[0].message).toBe(
+        "Body does not match POST /contracts 201 (application/json): /total must be number"
+      );
+      expect(errors[1].message).toContain('/status must be one of "active", "closed"');
+    });
+
+    it("should report missing required properties", async () => {
+      const errors = await validateRuleBody(scenario, rule({ total: 1 }), 0, routes);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain("/id is required");
+    });
+
+    it("should skip statuses without a declared schema", async () => {
+      const errors = await validateRuleBody(
+        scenario,
+        { ...rule({ anything: true }), respond: { status: 503, body: { anything: true } } },
+        0,
+        routes
+      );
+
+      expect(errors).toEqual([]);
+    });
+  });
+});
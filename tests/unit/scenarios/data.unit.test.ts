@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { loadFs, resetFs } from "../../helpers/memfs";
+import { parseCsv, selectData } from "../../../src/scenarios/data";
+import { loadScenarios } from "../../../src/scenarios/loader";
+import { validateScenarioFile } from "../../../src/scenarios/validation";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import type { ApiRoute } from "../../../src/openapi/types";
+
+const routes: ApiRoute[] = ["/contracts", "/contracts/{contractId}"].map((path) => ({
+  method: "GET",
+  path,
+  fastifyPath: path.replace(/{(.*?)}/g, ":$1"),
+  operation: {} as ApiRoute["operation"],
+  responses: { "200": { description: "ok" } },
+}));
+
+const scenario = [
+  "scenario: Contracts",
+  "data:",
+  "  contracts: data/contracts.csv",
+  "rules:",
+  "  - id: by-id",
+  "    match:",
+  "      path: /contracts/{contractId}",
+  "    respond:",
+  "      status: 200",
+  "      data:",
+  "        collection: contracts",
+  "        lookup:",
+  "          id: params.contractId",
+  "  - id: list",
+  "    match:",
+  "      path: /contracts",
+  "    respond:",
+  "      status: 200",
+  "      data:",
+  "        collection: contracts",
+  "        filter:",
+  "          status: query.status",
+].join("\n");
+
+const csv = ["id,customer,status", '1,"Acme, Inc.",active', "2,Globex,ended", '3,"Initech ""IT""",active'].join("\n");
+
+describe("scenarios", () => {
+  describe("data", () => {
+    beforeEach(() => {
+      resetFs();
+    });
+
+    it("should parse CSV with quoted fields into string records", () => {
+      expect(parseCsv(`${csv}\n`)).toEqual([
+        { id: "1", customer: "Acme, Inc.", status: "active" },
+        { id: "2", customer: "Globex", status: "ended" },
+        { id: "3", customer: 'Initech "IT"', status: "active" },
+      ]);
+      expect(() => parseCsv("id,name\n1")).toThrow("row 2 has 1 fields, expected 2");
+    });
+
+    it("should look up one record, answer notFound, or filter the list", () => {
+      const records = [{ id: 1, status: "active" }, { id: 2, status: "ended" }];
+      const lookup = { collection: "contracts", lookup: { id: "params.contractId" } };
+
+      expect(selectData(lookup, records, 200, { params: { contractId: "2" }, query: {} })).toEqual({
+        status: 200,
+        body: { id: 2, status: "ended" },
+      });
+      expect(selectData(lookup, records, 200, { params: { contractId: "9" }, query: {} })).toEqual({
+        status: 404,
+        body: { message: "No contracts record found" },
+      });
+      expect(
+        selectData({ ...lookup, notFound: { status: 410 } }, records, 200, { params: { contractId: "9" }, query: {} })
+      ).toEqual({ status: 410, body: { message: "No contracts record found" } });
+
+      const filter = { collection: "contracts", filter: { status: "query.status" } };
+      expect(selectData(filter, records, 200, { params: {}, query: { status: "active" } }).body).toEqual([records[0]]);
+      expect(selectData(filter, records, 200, { params: {}, query: {} }).body).toEqual(records);
+    });
+
+    it("should reject unknown collections, params and unreadable data files", async () => {
+      loadFs({
+        "/scenarios/broken.yaml": [
+          "scenario: Broken",
+          "data:",
+          "  contracts: data/missing.json",
+          "rules:",
+          "  - match:",
+          "      path: /contracts/{contractId}",
+          "    respond:",
+          "      status: 200",
+          "      data:",
+          "        collection: partners",
+          "        lookup:",
+          "          id: params.id",
+        ].join("\n"),
+      });
+
+      const result = await validateScenarioFile("/scenarios/broken.yaml");
+
+      expect(result.errors.map(({ path, message }) => ({ path, message }))).toEqual([
+        expect.objectContaining({ path: "data.contracts", message: expect.stringContaining("data file could not be read") }),
+        { path: "rules[0].respond.data.collection", message: 'Unknown data collection "partners"' },
+        { path: "rules[0].respond.data.lookup.id", message: '"id" is not a {param} segment of match.path' },
+      ]);
+    });
+
+    it("should report data problems alongside errors in other rules", async () => {
+      loadFs({
+        "/scenarios/data/contracts.csv": 'id,name\n1,"unterminated\n',
+        "/scenarios/mixed.yaml": [
+          "scenario: Mixed",
+          "data:",
+          "  contracts: data/contracts.csv",
+          "rules:",
+          "  - match:",
+          "      path: /contracts",
+          "      method: FETCH",
+          "    respond:",
+          "      status: 200",
+          "      data:",
+          "        collection: invoices",
+          "  - match:",
+          "      path: /contracts/{contractId}",
+          "    respond:",
+          "      status: 200",
+          "      data:",
+          "        collection: partners",
+        ].join("\n"),
+      });
+
+      const result = await validateScenarioFile("/scenarios/mixed.yaml");
+
+      expect(result.errors.map(({ path, message }) => ({ path, message }))).toEqual([
+        expect.objectContaining({ path: "rules[0].match.method" }),
+        { path: "data.contracts", message: "data file could not be read: unterminated quoted field" },
+        { path: "rules[1].respond.data.collection", message: 'Unknown data collection "partners"' },
+      ]);
+    });
+
+    it("should answer rules from data files loaded with the scenario", async () => {
+      loadFs({ "/scenarios/contracts.yaml": scenario, "/scenarios/data/contracts.csv": csv });
+      const scenarios = await loadScenarios("/scenarios");
+      const scenarioState = new ScenarioState();
+      scenarioState.set("Contracts");
+      const eventLogger = { emitEvent: vi.fn(), onEvent: vi.fn() };
+      const server = createServer({ routes, scenarios, scenarioState, port: 0, eventLogger });
+
+      const found = await server.inject({ method: "GET", url: "/contracts/1" });
+      expect(found.json()).toEqual({ id: "1", customer: "Acme, Inc.", status: "active" });
+      expect((await server.inject({ method: "GET", url: "/contracts/7" })).statusCode).toBe(404);
+      const active = await server.inject({ method: "GET", url: "/contracts?status=active" });
+      expect(active.json().map((record: { id: string }) => record.id)).toEqual(["1", "3"]);
+      await server.close();
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { lintRuleConflicts } from "../../../src/scenarios/rule-conflicts";
+import type { ScenarioRule } from "../../../src/scenarios/types";
+
+const lint = (rules: ScenarioRule[]) =>
+  lintRuleConflicts(rules, "/scenarios/conflicts.yaml").map(({ path, ruleId, message, severity, code }) => ({
+    path,
+    ruleId,
+    message,
+    severity,
+    code,
+  }));
+
+describe("scenarios", () => {
+  describe("rule conflicts", () => {
+    it("should warn about rules shadowed by a broader rule that wins", () => {
+      expect(
+        lint([
+          { id: "all-contracts", priority: 10, match: { path: "/contracts/*" }, respond: { status: 503 } },
+          { id: "one-contract", match: { path: "/contracts/{id}", method: "GET" }, respond: { status: 404 } },
+          { id: "duplicate", match: { path: "/contracts/{id}", method: "GET" }, respond: { status: 200 } },
+        ])
+      ).toEqual([
+        {
+          path: "rules[1]",
+          ruleId: "one-contract",
+          message: 'Rule "one-contract" is unreachable: rule "all-contracts" matches every request it does and wins',
+          severity: "warning",
+          code: "rules/shadowed",
+        },
+        {
+          path: "rules[2]",
+          ruleId: "duplicate",
+          message: 'Rule "duplicate" is unreachable: rule "all-contracts" matches every request it does and wins',
+          severity: "warning",
+          code: "rules/shadowed",
+        },
+      ]);
+    });
+
+    it("should warn about overlapping rules that tie and ignore provably disjoint ones", () => {
+      expect(
+        lint([
+          { id: "premium", match: { path: "/contracts", headers: { "X-Tier": "premium" } }, respond: { status: 200 } },
+          { id: "basic", match: { path: "/contracts", headers: { "x-tier": "basic" } }, respond: { status: 402 } },
+          { id: "dry-run", match: { path: "/contracts", headers: { "x-dry-run": "true" } }, respond: { status: 400 } },
+          { id: "basic-first", priority: 1, match: { path: "/contracts", query: { dryRun: "false" } }, respond: { status: 200 } },
+        ])
+      ).toEqual([
+        {
+          path: "rules[2]",
+          ruleId: "dry-run",
+          message:
+            'Rules "premium" and "dry-run" can match the same request with equal priority and specificity; "premium" wins because it is listed first. Set priority to make the order explicit',
+          severity: "warning",
+          code: "rules/ambiguous-tie",
+        },
+      ]);
+    });
+  });
+});
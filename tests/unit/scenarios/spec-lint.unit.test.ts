@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { lintScenariosAgainstSpec } from "../../../src/scenarios/spec-lint";
+import type { ApiRoute } from "../../../src/openapi/types";
+import type { LoadedScenario, ScenarioRule } from "../../../src/scenarios/types";
+
+const route = (method: ApiRoute["method"], path: string, statuses: string[]): ApiRoute => ({
+  method,
+  path,
+  fastifyPath: path.replace(/{(.*?)}/g, ":$1"),
+  operation: {} as ApiRoute["operation"],
+  responses: Object.fromEntries(statuses.map((status) => [status, { description: status }])),
+});
+
+const routes: ApiRoute[] = [
+  route("GET", "/contracts", ["200", "500"]),
+  route("POST", "/contracts", ["201", "4XX"]),
+  route("GET", "/contracts/{contractId}", ["200", "404"]),
+];
+
+const scenario = (rules: ScenarioRule[]): LoadedScenario => ({
+  scenario: "Lint",
+  rules,
+  sourcePath: "/scenarios/lint.yaml",
+  sourceDir: "/scenarios",
+});
+
+describe("scenarios", () => {
+  describe("spec lint", () => {
+    it("should accept rules that target declared operations and statuses", async () => {
+      const errors = await lintScenariosAgainstSpec(
+        [
+          scenario([
+            { id: "by-id", match: { path: "/contracts/ctr_404", method: "GET" }, respond: { status: 404 } },
+            { id: "range", match: { path: "/contracts", method: "POST" }, respond: { status: 422 } },
+            { id: "wildcard", match: { path: "/contracts/*", method: "GET" }, respond: { status: 200 } },
+          ]),
+        ],
+        routes
+      );
+
+      expect(errors).toEqual([]);
+    });
+
+    it("should report rules targeting non-existent operations as errors", async () => {
+      const errors = await lintScenariosAgainstSpec(
+        [
+          scenario([
+            { id: "missing-path", match: { path: "/partners", method: "GET" }, respond: { status: 200 } },
+            { id: "missing-method", match: { path: "/contracts", method: "DELETE" }, respond: { status: 204 } },
+          ]),
+        ],
+        routes
+      );
+
+      expect(errors).toEqual([
+        expect.objectContaining({
+          ruleId: "missing-path",
+          path: "rules[0].match.path",
+          severity: "error",
+          code: "spec/unknown-operation",
+        }),
+        expect.objectContaining({
+          ruleId: "missing-method",
+          path: "rules[1].match.method",
+          severity: "error",
+          code: "spec/unknown-operation",
+        }),
+      ]);
+    });
+
+    it("should report wildcards covering no routes and undeclared statuses", async () => {
+      const errors = await lintScenariosAgainstSpec(
+        [
+          scenario([
+            { id: "no-routes", match: { path: "/partners/*" }, respond: { status: 200 } },
+            { id: "undeclared", match: { path: "/contracts/*", method: "GET" }, respond: { status: 503 } },
+          ]),
+        ],
+        routes
+      );
+
+      expect(errors.map((error) => [error.ruleId, error.code, error.severity])).toEqual([
+        ["no-routes", "spec/wildcard-no-routes", "error"],
+        ["undeclared", "spec/undeclared-status", "warning"],
+      ]);
+      expect(errors[1].message).toBe(
+        "Status 503 is not declared for GET /contracts, GET /contracts/{contractId}"
+      );
+    });
+
+    it("should resolve operationId and tags rules and reject unknown ones", async () => {
+      const tagged: ApiRoute[] = [
+        { ...route("GET", "/payments", ["200", "503"]), operation: { operationId: "listPayments", tags: ["payments"], responses: {} } },
+        { ...route("POST", "/payments", ["201"]), operation: { operationId: "createPayment", tags: ["payments"], responses: {} } },
+      ];
+
+      const errors = await lintScenariosAgainstSpec(
+        [
+          scenario([
+            { id: "by-operation", match: { operationId: "listPayments" }, respond: { status: 503 } },
+            { id: "by-tag", match: { tags: ["payments"] }, respond: { status: 503 } },
+            { id: "unknown-operation", match: { operationId: "refundPayment" }, respond: { status: 503 } },
+            { id: "unknown-tag", match: { tags: ["payments", "billing"] }, respond: { status: 503 } },
+          ]),
+        ],
+        tagged,
+        { proxy: true }
+      );
+
+      expect(errors).toEqual([
+        expect.objectContaining({ ruleId: "by-tag", code: "spec/undeclared-status", severity: "warning" }),
+        expect.objectContaining({
+          ruleId: "unknown-operation",
+          path: "rules[2].match.operationId",
+          message: 'Unknown operationId "refundPayment"',
+          severity: "error",
+          code: "spec/unknown-operation-id",
+        }),
+        expect.objectContaining({
+          ruleId: "unknown-tag",
+          path: "rules[3].match.tags[1]",
+          message: 'No operation is tagged "billing"',
+          severity: "error",
+          code: "spec/unknown-tag",
+        }),
+      ]);
+    });
+
+    it("should downgrade unreachable rules to warnings when proxy is enabled", async () => {
+      const errors = await lintScenariosAgainstSpec(
+        [scenario([{ id: "proxied", match: { path: "/partners" }, respond: { status: 200 } }])],
+        routes,
+        { proxy: true }
+      );
+
+      expect(errors[0].severity).toBe("warning");
+    });
+  });
+});
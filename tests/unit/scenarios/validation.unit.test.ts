@@ -28,5 +28,288 @@ describe("scenarios", () => {
       expect(result.errors.length).toBeGreaterThan(0);
       expect(result.errors[0].message).toContain("valid HTTP method");
     });
+
+    it("should reject params that are not {param} segments of the path", async () => {
+      loadFs({
+        "/scenarios/params.yaml": [
+          "scenario: Params",
+          "rules:",
+          "  - id: missing-contract",
+          "    match:",
+          "      path: /contracts/{contractId}/items",
+          "      params:",
+          "        contractId: ctr_404",
+          "        itemId: itm_1",
+          "    respond:",
+          "      status: 404",
+        ].join("\n"),
+      });
+
+      const result = await validateScenarioFile("/scenarios/params.yaml");
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].path).toBe("rules[0].match.params.itemId");
+      expect(result.errors[0].message).toBe('"itemId" is not a {param} segment of match.path');
+    });
+
+    it("should reject invalid header and query operators at load time", async () => {
+      loadFs({
+        "/scenarios/operators.yaml": [
+          "scenario: Operators",
+          "rules:",
+          "  - id: bad-operators",
+          "    match:",
+          "      path: /contracts",
+          "      headers:",
+          "        x-client: { regex: \"([a-z\" }",
+          "      query:",
+          "        limit: { gt: ten, between: [1, 5] }",
+          "    respond:",
+          "      status: 200",
+        ].join("\n"),
+      });
+
+      const result = await validateScenarioFile("/scenarios/operators.yaml");
+
+      expect(result.errors.map(({ path, message }) => ({ path, message }))).toEqual([
+        { path: "rules[0].match.query.limit", message: '"gt" must be a number' },
+        {
+          path: "rules[0].match.query.limit",
+          message: expect.stringContaining('unknown operator "between"'),
+        },
+        { path: "rules[0].match.headers.x-client", message: '"regex" is not a valid regular expression: ([a-z' },
+      ]);
+    });
+
+    it("should validate nested anyOf, allOf and not conditions", async () => {
+      loadFs({
+        "/scenarios/combinators.yaml": [
+          "scenario: Combinators",
+          "rules:",
+          "  - id: beta",
+          "    match:",
+          "      path: /contracts",
+          "      anyOf: []",
+          "      allOf:",
+          "        - method: FETCH",
+          "        - operationId: listContracts",
+          "      not:",
+          "        query:",
+          "          beta: { regex: \"(\" }",
+          "    respond:",
+          "      status: 200",
+        ].join("\n"),
+      });
+
+      const result = await validateScenarioFile("/scenarios/combinators.yaml");
+
+      expect(result.errors.map(({ path, message }) => ({ path, message }))).toEqual([
+        { path: "rules[0].match.anyOf", message: "anyOf must be a non-empty list" },
+        { path: "rules[0].match.allOf[0].method", message: '"FETCH" is not a valid HTTP method' },
+        { path: "rules[0].match.allOf[1].operationId", message: 'Unknown condition key "operationId"' },
+        { path: "rules[0].match.not.query.beta", message: '"regex" is not a valid regular expression: (' },
+      ]);
+    });
+
+    it("should validate response sequences", async () => {
+      loadFs({
+        "/scenarios/sequence.yaml": [
+          "scenario: Sequence",
+          "rules:",
+          "  - id: flaky",
+          "    match:",
+          "      path: /orders",
+          "    sequence: shuffle",
+          "    respond:",
+          "      - status: 503",
+          "        repeat: 0",
+          "      - status: 700",
+          "  - id: single",
+          "    match:",
+          "      path: /orders/1",
+          "    sequence: cycle",
+          "    respond:",
+          "      status: 200",
+          "      repeat: 2",
+          "  - id: repeated",
+          "    match:",
+          "      path: /orders/2",
+          "    sequence: repeat",
+          "    mode: cycle",
+          "    respond:",
+          "      - status: 503",
+          "      - status: 200",
+        ].join("\n"),
+      });
+
+      const result = await validateScenarioFile("/scenarios/sequence.yaml");
+
+      expect(result.errors.map(({ path, message }) => ({ path, message }))).toEqual([
+        { path: "rules[0].respond[0].repeat", message: "repeat must be a positive integer" },
+        { path: "rules[0].respond[1].status", message: "status must be between 100 and 599" },
+        { path: "rules[0].sequence", message: "sequence must be one of stick-on-last, cycle" },
+        { path: "rules[1].respond.repeat", message: "repeat is only allowed in a list of responses" },
+        { path: "rules[1].sequence", message: "sequence needs a list of responses" },
+        { path: "rules[2].mode", message: 'Unknown rule key "mode"; a response sequence is set with "sequence"' },
+        {
+          path: "rules[2].sequence",
+          message: 'sequence must be one of stick-on-last, cycle; "repeat" is a count set on a step (repeat: 3)',
+        },
+      ]);
+    });
+
+    it("should report null responses instead of throwing", async () => {
+      loadFs({
+        "/scenarios/null-respond.yaml": [
+          "scenario: NullRespond",
+          "rules:",
+          "  - match:",
+          "      path: /contracts",
+          "    respond: [null]",
+          "  - match:",
+          "      path: /payments",
+          "    respond: null",
+        ].join("\n"),
+      });
+
+      const result = await validateScenarioFile("/scenarios/null-respond.yaml");
+
+      expect(result.errors.map(({ path, message }) => ({ path, message }))).toEqual([
+        { path: "rules[0].respond[0]", message: "respond must be an object" },
+        { path: "rules[1].respond", message: "respond must be an object" },
+      ]);
+    });
+
+    it("should validate scenario states and warn about states that are never entered", async () => {
+      loadFs({
+        "/scenarios/invalid-states.yaml": [
+          "scenario: Invalid states",
+          "rules:",
+          "  - match:",
+          "      path: /orders",
+          "      state: []",
+          "    respond:",
+          "      status: 200",
+          "      setState: 3",
+        ].join("\n"),
+        "/scenarios/initial-state.yaml": ["scenario: Initial state", "initialState: ''", "rules: []"].join("\n"),
+        "/scenarios/checkout.yaml": [
+          "scenario: Checkout",
+          "initialState: cart",
+          "rules:",
+          "  - id: pay",
+          "    match:",
+          "      path: /payments",
+          "      state: cart",
+          "    respond:",
+          "      status: 201",
+          "      setState: paid",
+          "  - id: shipped",
+          "    match:",
+          "      path: /orders/1",
+          "      state: [paid, shipped]",
+          "    respond:",
+          "      status: 200",
+        ].join("\n"),
+      });
+
+      const invalid = await validateScenarioFile("/scenarios/invalid-states.yaml");
+      expect(invalid.errors.map(({ path, message }) => ({ path, message }))).toEqual([
+        { path: "rules[0].match.state", message: "state must be a non-empty string or list of strings" },
+        { path: "rules[0].respond.setState", message: "setState must be a non-empty string" },
+      ]);
+
+      const initial = await validateScenarioFile("/scenarios/initial-state.yaml");
+      expect(initial.errors.map(({ path, message }) => ({ path, message }))).toContainEqual({
+        path: "initialState",
+        message: "initialState must be a non-empty string",
+      });
+
+      const checkout = await validateScenarioFile("/scenarios/checkout.yaml");
+      expect(checkout.scenario).toBeDefined();
+      expect(checkout.errors.map(({ path, message, severity }) => ({ path, message, severity }))).toEqual([
+        {
+          path: "rules[1].match.state",
+          message: 'State "shipped" is never entered: it is not the initial state and no response sets it',
+          severity: "warning",
+        },
+      ]);
+    });
+
+    it("should validate timeout modes", async () => {
+      loadFs({
+        "/scenarios/timeouts.yaml": [
+          "scenario: Timeouts",
+          "rules:",
+          "  - id: legacy",
+          "    match:",
+          "      path: /contracts",
+          "    respond:",
+          "      status: 200",
+          "      timeout: -1",
+          "  - id: bad-mode",
+          "    match:",
+          "      path: /payments",
+          "    respond:",
+          "      status: 200",
+          "      timeout:",
+          "        mode: explode",
+          "        afterMs: -5",
+          "        retries: 2",
+          "  - id: hang-with-body",
+          "    match:",
+          "      path: /orders",
+          "    respond:",
+          "      status: 200",
+          "      timeout:",
+          "        mode: hang",
+          "        body: late",
+          "  - id: custom",
+          "    match:",
+          "      path: /invoices",
+          "    respond:",
+          "      status: 200",
+          "      timeout:",
+          "        mode: respond",
+          "        afterMs: 100",
+          "        status: 503",
+          "        body:",
+          "          message: upstream busy",
+        ].join("\n"),
+      });
+
+      const result = await validateScenarioFile("/scenarios/timeouts.yaml");
+
+      expect(result.errors.map(({ path, message }) => ({ path, message }))).toEqual([
+        { path: "rules[0].respond.timeout", message: "timeout must be >= 0" },
+        { path: "rules[1].respond.timeout.retries", message: 'Unknown timeout key "retries"' },
+        { path: "rules[1].respond.timeout.mode", message: "mode must be one of respond, hang, destroy, reset" },
+        { path: "rules[1].respond.timeout.afterMs", message: "afterMs must be >= 0" },
+        { path: "rules[2].respond.timeout.body", message: 'body is only allowed with mode "respond"' },
+      ]);
+    });
+
+    it("should attach line and column to semantic errors when the path exists in the YAML", async () => {
+      loadFs({
+        "/scenarios/invalid.yaml": [
+          "scenario: BadMethod",
+          "rules:",
+          "  - id: bad-method",
+          "    match:",
+          "      path: /contracts",
+          "      method: FETCH",
+          "    respond:",
+          "      status: 200",
+        ].join("\n"),
+      });
+
+      const result = await validateScenarioFile("/scenarios/invalid.yaml");
+
+      expect(result.errors[0]).toMatchObject({
+        path: "rules[0].match.method",
+        line: 6,
+        column: 15,
+      });
+    });
   });
 });
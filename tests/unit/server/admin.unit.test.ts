@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import { createNullEventLogger } from "../../../src/logging/event-logger";
+import type { ApiRoute } from "../../../src/openapi/types";
+import type { LoadedScenario } from "../../../src/scenarios/types";
+
+const routes: ApiRoute[] = [
+  {
+    method: "GET",
+    path: "/orders",
+    fastifyPath: "/orders",
+    operation: {} as ApiRoute["operation"],
+    responses: { "200": { description: "ok" } },
+  },
+];
+
+const scenarios: LoadedScenario[] = [
+  {
+    scenario: "Counter",
+    description: "Counts requests",
+    sourcePath: "/scenarios/counter.yaml",
+    sourceDir: "/scenarios",
+    rules: [{ match: { path: "/orders", method: "GET" }, respond: { status: 200, body: { n: "{{increment}}" } } }],
+  },
+];
+
+describe("server", () => {
+  describe("admin", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should list scenarios and switch the active one", async () => {
+      const scenarioState = new ScenarioState();
+      const server = createServer({ routes, scenarios, scenarioState, port: 0, eventLogger: createNullEventLogger() });
+
+      expect((await server.inject({ method: "GET", url: "/__mockhub/health" })).json()).toEqual({ status: "ok" });
+      expect((await server.inject({ method: "GET", url: "/__mockhub/scenarios" })).json()).toEqual({
+        active: null,
+        scenarios: [
+          { name: "Counter", description: "Counts requests", rules: 1, file: "/scenarios/counter.yaml" },
+        ],
+      });
+
+      const set = await server.inject({ method: "PUT", url: "/__mockhub/scenarios/active", payload: { scenario: "Counter" } });
+      expect(set.json()).toEqual({ scenario: "Counter" });
+      expect(scenarioState.get()).toBe("Counter");
+
+      const unknown = await server.inject({ method: "PUT", url: "/__mockhub/scenarios/active", payload: { scenario: "Nope" } });
+      expect(unknown.statusCode).toBe(404);
+      expect(scenarioState.get()).toBe("Counter");
+
+      const invalid = await server.inject({ method: "PUT", url: "/__mockhub/scenarios/active", payload: { scenario: 1 } });
+      expect(invalid.statusCode).toBe(400);
+
+      await server.inject({ method: "PUT", url: "/__mockhub/scenarios/active", payload: { scenario: null } });
+      expect((await server.inject({ method: "GET", url: "/__mockhub/scenarios/active" })).json()).toEqual({ scenario: null });
+      await server.close();
+    });
+
+    it("should reset template counters", async () => {
+      const scenarioState = new ScenarioState();
+      scenarioState.set("Counter");
+      const server = createServer({ routes, scenarios, scenarioState, port: 0, eventLogger: createNullEventLogger() });
+
+      await server.inject({ method: "GET", url: "/orders" });
+      expect((await server.inject({ method: "GET", url: "/orders" })).json()).toEqual({ n: "2" });
+
+      expect((await server.inject({ method: "POST", url: "/__mockhub/reset" })).json()).toEqual({ reset: true });
+      expect((await server.inject({ method: "GET", url: "/orders" })).json()).toEqual({ n: "1" });
+      await server.close();
+    });
+
+    it("should report reload outcomes and answer 501 without a reloader", async () => {
+      const reload = vi.fn().mockResolvedValue({ result: "failed", files: [], message: "status must be a number" });
+      const withReload = createServer({
+        routes,
+        scenarios,
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger: createNullEventLogger(),
+        reload,
+      });
+      const withoutReload = createServer({
+        routes,
+        scenarios,
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger: createNullEventLogger(),
+      });
+
+      const failed = await withReload.inject({ method: "POST", url: "/__mockhub/reload" });
+      expect(failed.statusCode).toBe(422);
+      expect(failed.json()).toEqual({ result: "failed", message: "status must be a number" });
+      expect((await withoutReload.inject({ method: "POST", url: "/__mockhub/reload" })).statusCode).toBe(501);
+      await withReload.close();
+      await withoutReload.close();
+    });
+
+    it("should query, verify and clear the request journal", async () => {
+      const server = createServer({ routes, scenarios, scenarioState: new ScenarioState(), port: 0, eventLogger: createNullEventLogger() });
+
+      await server.inject({ method: "GET", url: "/orders" });
+      await server.inject({ method: "GET", url: "/orders" });
+
+      const listed = await server.inject({ method: "GET", url: "/__mockhub/requests?path=/orders&status=200" });
+      expect(listed.json().requests).toHaveLength(2);
+      expect((await server.inject({ method: "GET", url: "/__mockhub/requests?status=abc" })).statusCode).toBe(400);
+
+      const verified = await server.inject({
+        method: "POST",
+        url: "/__mockhub/requests/verify",
+        payload: { expectations: [{ method: "GET", path: "/orders", count: 1 }] },
+      });
+      expect(verified.json()).toMatchObject({ ok: false, mismatches: [{ actual: 2 }] });
+
+      expect((await server.inject({ method: "DELETE", url: "/__mockhub/requests" })).json()).toEqual({ cleared: 2 });
+      expect((await server.inject({ method: "GET", url: "/__mockhub/requests" })).json()).toEqual({ requests: [] });
+      await server.close();
+    });
+
+    it("should never proxy requests under the reserved prefix", async () => {
+      vi.stubGlobal("fetch", vi.fn());
+      const server = createServer({
+        routes,
+        scenarios,
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger: createNullEventLogger(),
+        proxyBaseUrl: "http://localhost:8080",
+      });
+
+      const response = await server.inject({ method: "GET", url: "/__mockhub/unknown" });
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json()).toEqual({ message: "Unknown admin endpoint GET /__mockhub/unknown" });
+      expect(fetch).not.toHaveBeenCalled();
+      await server.close();
+    });
+  });
+});
@@ -263,5 +263,39 @@ describe("server", () => {
       expect(options?.body).toBe(JSON.stringify({ amount: 25 }));
       await server.close();
     });
+
+    it("should hand proxied exchanges to the recorder", async () => {
+      const fetchMock = vi.mocked(fetch);
+      fetchMock.mockResolvedValueOnce(
+        makeResponse(200, { "content-type": "application/json" }, "{\"ok\":true}")
+      );
+      const recorder = { record: vi.fn(async () => undefined) };
+
+      const server = createServer({
+        routes,
+        scenarios: [],
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger: createNullEventLogger(),
+        proxyBaseUrl,
+        recorder,
+      });
+
+      await server.inject({
+        method: "GET",
+        url: "/contracts?plan=pro",
+      });
+
+      expect(recorder.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: "GET",
+          path: "/contracts",
+          query: { plan: "pro" },
+          status: 200,
+          headers: { "content-type": "application/json" },
+        })
+      );
+      await server.close();
+    });
   });
 });
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import type { ApiRoute } from "../../../src/openapi/types";
+import type { LoadedScenario } from "../../../src/scenarios/types";
+
+const routes: ApiRoute[] = [
+  {
+    method: "POST",
+    path: "/payments",
+    fastifyPath: "/payments",
+    operation: {} as ApiRoute["operation"],
+    responses: { "201": { description: "created" } },
+  },
+  {
+    method: "GET",
+    path: "/orders/{id}",
+    fastifyPath: "/orders/:id",
+    operation: {} as ApiRoute["operation"],
+    responses: { "200": { description: "ok" } },
+  },
+];
+
+const scenarios: LoadedScenario[] = [
+  {
+    scenario: "Checkout",
+    sourcePath: "/scenarios/checkout.yaml",
+    sourceDir: "/scenarios",
+    initialState: "open",
+    rules: [
+      {
+        id: "pay",
+        match: { path: "/payments", method: "POST", state: "open" },
+        respond: { status: 201, setState: "paid" },
+      },
+      {
+        id: "order-open",
+        match: { path: "/orders/{id}", method: "GET" },
+        respond: { status: 200, body: { status: "open" } },
+      },
+      {
+        id: "order-paid",
+        match: { path: "/orders/{id}", method: "GET", state: "paid" },
+        respond: { status: 200, body: { status: "paid" } },
+      },
+    ],
+  },
+];
+
+const buildServer = () => {
+  const eventLogger = { emitEvent: vi.fn(), onEvent: vi.fn() };
+  const scenarioState = new ScenarioState();
+  scenarioState.set("Checkout");
+  const server = createServer({ routes, scenarios, scenarioState, port: 0, eventLogger });
+  return { server, eventLogger };
+};
+
+const orderStatus = async (server: ReturnType<typeof buildServer>["server"], session?: string) => {
+  const headers = session ? { "x-mockhub-session": session } : {};
+  return (await server.inject({ method: "GET", url: "/orders/1", headers })).json().status;
+};
+
+const pay = async (server: ReturnType<typeof buildServer>["server"], session?: string) => {
+  const headers = session ? { "x-mockhub-session": session } : {};
+  return (await server.inject({ method: "POST", url: "/payments", headers })).statusCode;
+};
+
+describe("server", () => {
+  describe("scenario-states", () => {
+    it("should move the scenario into a new state and log the transition", async () => {
+      const { server, eventLogger } = buildServer();
+
+      expect(await orderStatus(server)).toBe("open");
+      expect(await pay(server)).toBe(201);
+      expect(await orderStatus(server)).toBe("paid");
+
+      const changes = eventLogger.emitEvent.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.event === "state-changed");
+      expect(changes).toEqual([
+        { event: "state-changed", scenarioId: "Checkout", from: "open", to: "paid", ruleIndex: 0, ruleId: "pay" },
+      ]);
+
+      // The payment rule only matches while the order is open.
+      eventLogger.emitEvent.mockClear();
+      await pay(server);
+      expect(eventLogger.emitEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event: "rule-evaluated", ruleId: "pay", reason: "state mismatch (current: paid)" })
+      );
+      await server.close();
+    });
+
+    it("should track sessions separately and expose states through the admin API", async () => {
+      const { server } = buildServer();
+
+      await pay(server, "a");
+      expect(await orderStatus(server, "a")).toBe("paid");
+      expect(await orderStatus(server, "b")).toBe("open");
+      expect(await orderStatus(server)).toBe("open");
+
+      const states = await server.inject({ method: "GET", url: "/__mockhub/states" });
+      expect(states.json()).toEqual({
+        states: [{ scenario: "Checkout", initialState: "open", state: "open", sessions: { a: "paid" } }],
+      });
+
+      const reset = await server.inject({ method: "DELETE", url: "/__mockhub/states?session=a" });
+      expect(reset.json()).toEqual({ cleared: 1 });
+      expect(await orderStatus(server, "a")).toBe("open");
+      await server.close();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from "vitest";
+import { stepForCall } from "../../../src/rules/sequence";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import type { ApiRoute } from "../../../src/openapi/types";
+import type { LoadedScenario, ScenarioRespond } from "../../../src/scenarios/types";
+
+const routes: ApiRoute[] = [
+  {
+    method: "GET",
+    path: "/orders",
+    fastifyPath: "/orders",
+    operation: {} as ApiRoute["operation"],
+    responses: { "200": { description: "ok" }, "503": { description: "down" } },
+  },
+];
+
+const scenarios: LoadedScenario[] = [
+  {
+    scenario: "Flaky",
+    sourcePath: "/scenarios/flaky.yaml",
+    sourceDir: "/scenarios",
+    rules: [
+      {
+        id: "retry-then-ok",
+        match: { path: "/orders", method: "GET" },
+        respond: [
+          { status: 503, repeat: 2 },
+          { status: 200, body: { ok: true } },
+        ],
+      },
+    ],
+  },
+];
+
+const buildServer = () => {
+  const eventLogger = { emitEvent: vi.fn(), onEvent: vi.fn() };
+  const scenarioState = new ScenarioState();
+  scenarioState.set("Flaky");
+  const server = createServer({ routes, scenarios, scenarioState, port: 0, eventLogger });
+  return { server, eventLogger };
+};
+
+const statuses = async (server: ReturnType<typeof buildServer>["server"], calls: number, session?: string) => {
+  const result: number[] = [];
+  for (let call = 0; call < calls; call += 1) {
+    const headers = session ? { "x-mockhub-session": session } : {};
+    result.push((await server.inject({ method: "GET", url: "/orders", headers })).statusCode);
+  }
+  return result;
+};
+
+describe("server", () => {
+  describe("sequences", () => {
+    it("should pick steps by call count with stick-on-last and cycle", () => {
+      const steps: ScenarioRespond[] = [{ status: 503, repeat: 2 }, { status: 500 }, { status: 200 }];
+
+      expect([0, 1, 2, 3, 4, 5].map((call) => stepForCall(steps, call))).toEqual([0, 0, 1, 2, 2, 2]);
+      expect([0, 1, 2, 3, 4, 5].map((call) => stepForCall(steps, call, "cycle"))).toEqual([0, 0, 1, 2, 0, 0]);
+    });
+
+    it("should answer consecutive calls in order and report the step", async () => {
+      const { server, eventLogger } = buildServer();
+
+      expect(await statuses(server, 4)).toEqual([503, 503, 200, 200]);
+      const steps = eventLogger.emitEvent.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.event === "scenario-matched")
+        .map((event) => event.step);
+      expect(steps).toEqual([0, 0, 1, 1]);
+      await server.close();
+    });
+
+    it("should report the step of timeout steps too", async () => {
+      const eventLogger = { emitEvent: vi.fn(), onEvent: vi.fn() };
+      const scenarioState = new ScenarioState();
+      scenarioState.set("Slow");
+      const server = createServer({
+        routes,
+        scenarios: [
+          {
+            scenario: "Slow",
+            sourcePath: "/scenarios/slow.yaml",
+            sourceDir: "/scenarios",
+            rules: [
+              {
+                id: "slow-then-ok",
+                match: { path: "/orders", method: "GET" },
+                respond: [{ status: 200, timeout: 1 }, { status: 200, body: { ok: true } }],
+              },
+            ],
+          },
+        ],
+        scenarioState,
+        port: 0,
+        eventLogger,
+      });
+
+      expect(await statuses(server, 2)).toEqual([504, 200]);
+      const steps = eventLogger.emitEvent.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.event === "scenario-matched")
+        .map((event) => event.step);
+      expect(steps).toEqual([0, 1]);
+      await server.close();
+    });
+
+    it("should track sessions separately and reset through the admin API", async () => {
+      const { server } = buildServer();
+
+      expect(await statuses(server, 3, "a")).toEqual([503, 503, 200]);
+      expect(await statuses(server, 1, "b")).toEqual([503]);
+
+      const reset = await server.inject({ method: "DELETE", url: "/__mockhub/sequences?session=a" });
+      expect(reset.json()).toEqual({ cleared: 1 });
+      expect(await statuses(server, 1, "a")).toEqual([503]);
+      expect(await statuses(server, 2, "b")).toEqual([503, 200]);
+
+      await server.inject({ method: "POST", url: "/__mockhub/reset" });
+      expect(await statuses(server, 1, "b")).toEqual([503]);
+      await server.close();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from "vitest";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import type { ResponseValidationMode } from "../../../src/openapi/response-validation";
+import type { ApiRoute } from "../../../src/openapi/types";
+
+const contract = {
+  type: "object",
+  required: ["customer"],
+  properties: { id: { type: "integer" }, customer: { type: "string" }, status: { type: "string" } },
+};
+
+const json = (schema: object) => ({ "application/json": { schema } });
+
+const route = (method: ApiRoute["method"], path: string, operation: Partial<ApiRoute["operation"]>): ApiRoute => ({
+  method,
+  path,
+  fastifyPath: path.replace(/{(.*?)}/g, ":$1"),
+  operation: { responses: {}, ...operation },
+  responses: operation.responses ?? {},
+});
+
+const routes: ApiRoute[] = [
+  route("GET", "/contracts", {
+    responses: { "200": { description: "ok", content: json({ type: "array", items: contract }) } },
+  }),
+  route("POST", "/contracts", {
+    requestBody: { required: true, content: json(contract) },
+    responses: { "201": { description: "created", content: json(contract) } },
+  }),
+  route("GET", "/contracts/{contractId}", {
+    responses: { "200": { description: "ok", content: json(contract) } },
+  }),
+  route("PATCH", "/contracts/{contractId}", {
+    requestBody: { content: json({ type: "object" }) },
+    responses: { "200": { description: "ok", content: json(contract) } },
+  }),
+  route("DELETE", "/contracts/{contractId}", { responses: { "204": { description: "deleted" } } }),
+  route("POST", "/contracts/{contractId}/sign", {
+    responses: { "202": { description: "accepted", content: json({ type: "object", example: { queued: true } }) } },
+  }),
+];
+
+const buildServer = (validateResponses?: ResponseValidationMode) => {
+  const eventLogger = { emitEvent: vi.fn(), onEvent: vi.fn() };
+  const server = createServer({
+    routes,
+    scenarios: [],
+    scenarioState: new ScenarioState(),
+    port: 0,
+    eventLogger,
+    stateful: true,
+    validateResponses,
+    seed: { "/contracts": [{ id: 1, customer: "acme", status: "draft" }] },
+  });
+  return { server, eventLogger };
+};
+
+describe("server", () => {
+  describe("stateful", () => {
+    it("should store, return, change and delete collection items", async () => {
+      const { server, eventLogger } = buildServer();
+
+      const created = await server.inject({ method: "POST", url: "/contracts", payload: { customer: "globex" } });
+      expect(created.statusCode).toBe(201);
+      expect(created.json()).toEqual({ id: 2, customer: "globex" });
+
+      const patched = await server.inject({ method: "PATCH", url: "/contracts/2", payload: { status: "active" } });
+      expect(patched.json()).toEqual({ id: 2, customer: "globex", status: "active" });
+
+      expect((await server.inject({ method: "DELETE", url: "/contracts/1" })).statusCode).toBe(204);
+      expect((await server.inject({ method: "GET", url: "/contracts/1" })).statusCode).toBe(404);
+      expect((await server.inject({ method: "GET", url: "/contracts" })).json()).toEqual([
+        { id: 2, customer: "globex", status: "active" },
+      ]);
+
+      expect(eventLogger.emitEvent).toHaveBeenCalledWith({
+        event: "resource-action",
+        method: "POST",
+        path: "/contracts",
+        collection: "/contracts",
+        action: "create",
+        id: undefined,
+        status: 201,
+      });
+      await server.close();
+    });
+
+    it("should reject invalid and duplicate writes without storing them", async () => {
+      const { server } = buildServer();
+
+      const invalid = await server.inject({ method: "POST", url: "/contracts", payload: { status: "draft" } });
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.json().errors).toEqual([{ location: "body", pointer: "/customer", message: "is required" }]);
+
+      const duplicate = await server.inject({ method: "POST", url: "/contracts", payload: { id: 1, customer: "x" } });
+      expect(duplicate.statusCode).toBe(409);
+      expect((await server.inject({ method: "GET", url: "/contracts" })).json()).toHaveLength(1);
+      await server.close();
+    });
+
+    it("should answer other operations from the spec and restore seed data on reset", async () => {
+      const { server } = buildServer();
+
+      const signed = await server.inject({ method: "POST", url: "/contracts/1/sign" });
+      expect(signed.statusCode).toBe(202);
+
+      await server.inject({ method: "DELETE", url: "/contracts/1" });
+      await server.inject({ method: "POST", url: "/__mockhub/reset" });
+      expect((await server.inject({ method: "GET", url: "/contracts/1" })).json()).toEqual({
+        id: 1,
+        customer: "acme",
+        status: "draft",
+      });
+      await server.close();
+    });
+
+    it("should not check missing-item and duplicate answers against the contract", async () => {
+      const { server } = buildServer("fail");
+
+      await server.inject({ method: "DELETE", url: "/contracts/1" });
+      const missing = await server.inject({ method: "GET", url: "/contracts/1" });
+      expect(missing.statusCode).toBe(404);
+
+      await server.inject({ method: "POST", url: "/contracts", payload: { id: 5, customer: "acme" } });
+      const duplicate = await server.inject({ method: "POST", url: "/contracts", payload: { id: 5, customer: "x" } });
+      expect(duplicate.statusCode).toBe(409);
+
+      const journal = await server.inject({ method: "GET", url: "/__mockhub/requests?source=stateful-error" });
+      expect(journal.json().requests).toHaveLength(2);
+      await server.close();
+    });
+  });
+});
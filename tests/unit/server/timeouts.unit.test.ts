@@ -0,0 +1,163 @@
+import http from "node:http";
+import { Socket, type AddressInfo } from "node:net";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createRequestJournal } from "../../../src/journal/journal";
+import { createServer } from "../../../src/server/server";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import type { ApiRoute } from "../../../src/openapi/types";
+import type { LoadedScenario, ScenarioRespond } from "../../../src/scenarios/types";
+
+const routes: ApiRoute[] = [
+  {
+    method: "GET",
+    path: "/orders",
+    fastifyPath: "/orders",
+    operation: {} as ApiRoute["operation"],
+    responses: { "200": { description: "ok" } },
+  },
+];
+
+const buildServer = (respond: ScenarioRespond, proxyBaseUrl?: string) => {
+  const scenarios: LoadedScenario[] = [
+    {
+      scenario: "Slow",
+      sourcePath: "/scenarios/slow.yaml",
+      sourceDir: "/scenarios",
+      rules: [{ id: "slow-orders", match: { path: "/orders", method: "GET" }, respond }],
+    },
+  ];
+  const eventLogger = { emitEvent: vi.fn(), onEvent: vi.fn() };
+  const journal = createRequestJournal();
+  const scenarioState = new ScenarioState();
+  scenarioState.set("Slow");
+  const server = createServer({ routes, scenarios, scenarioState, port: 0, eventLogger, journal, proxyBaseUrl });
+  return { server, eventLogger, journal };
+};
+
+type Outcome = { status?: number; body?: string; error?: NodeJS.ErrnoException };
+
+const request = (port: number, abortAfterMs?: number) =>
+  new Promise<Outcome>((resolve) => {
+    const req = http.get({ host: "127.0.0.1", port, path: "/orders", agent: false }, (res) => {
+      let body = "";
+      res.on("data", (chunk) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode, body }));
+    });
+    req.on("error", (error) => resolve({ error }));
+    if (abortAfterMs !== undefined) req.setTimeout(abortAfterMs, () => req.destroy());
+  });
+
+const listen = async (server: ReturnType<typeof buildServer>["server"]) => {
+  await server.listen({ port: 0, host: "127.0.0.1" });
+  return (server.server.address() as AddressInfo).port;
+};
+
+describe("server", () => {
+  describe("timeouts", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should answer 504 for a bare number and a custom answer in respond mode", async () => {
+      const legacy = buildServer({ status: 200, body: { ok: true }, timeout: 5 });
+      const legacyResponse = await legacy.server.inject({ method: "GET", url: "/orders" });
+      expect(legacyResponse.statusCode).toBe(504);
+      expect(legacyResponse.json()).toEqual({ message: "Mock timeout" });
+
+      const custom = buildServer({
+        status: 200,
+        timeout: { mode: "respond", afterMs: 5, status: 503, body: { message: "busy" } },
+      });
+      const customResponse = await custom.server.inject({ method: "GET", url: "/orders" });
+      expect(customResponse.statusCode).toBe(503);
+      expect(customResponse.json()).toEqual({ message: "busy" });
+      expect(custom.eventLogger.emitEvent).toHaveBeenCalledWith({
+        event: "timeout-action",
+        scenarioId: "Slow",
+        ruleIndex: 0,
+        ruleId: "slow-orders",
+        mode: "respond",
+        afterMs: 5,
+        proxied: false,
+      });
+      expect(custom.journal.find()[0]).toMatchObject({ source: "timeout", status: 503 });
+    });
+
+    it("should close the connection without an answer in destroy and reset modes", async () => {
+      for (const mode of ["destroy", "reset"] as const) {
+        const { server, journal } = buildServer({ status: 200, timeout: { mode, afterMs: 5 } });
+        const outcome = await request(await listen(server));
+
+        expect(outcome.status).toBeUndefined();
+        expect(outcome.error?.code).toBe("ECONNRESET");
+        await vi.waitFor(() => expect(journal.find()).toHaveLength(1));
+        expect(journal.find()[0]).toMatchObject({ source: "timeout", status: 0, ruleId: "slow-orders" });
+        await server.close();
+      }
+    });
+
+    it("should fall back to closing the connection when the socket cannot reset", async () => {
+      const resetAndDestroy = Socket.prototype.resetAndDestroy;
+      Object.assign(Socket.prototype, { resetAndDestroy: undefined });
+      try {
+        const { server, journal } = buildServer({ status: 200, timeout: { mode: "reset" } });
+        const outcome = await request(await listen(server));
+
+        expect(outcome.status).toBeUndefined();
+        expect(outcome.error?.code).toBe("ECONNRESET");
+        await vi.waitFor(() => expect(journal.find()).toHaveLength(1));
+        await server.close();
+      } finally {
+        Object.assign(Socket.prototype, { resetAndDestroy });
+      }
+    });
+
+    it("should hang until the client gives up, without holding up server close", async () => {
+      const { server, journal, eventLogger } = buildServer({ status: 200, timeout: { mode: "hang" } });
+      const port = await listen(server);
+
+      const abandoned = await request(port, 30);
+      expect(abandoned.status).toBeUndefined();
+      await vi.waitFor(() => expect(journal.find()).toHaveLength(1));
+      expect(journal.find()[0]).toMatchObject({ source: "timeout", status: 0 });
+
+      const pending = request(port);
+      await vi.waitFor(() =>
+        expect(eventLogger.emitEvent.mock.calls.filter(([event]) => event.event === "timeout-action")).toHaveLength(2)
+      );
+      await server.close();
+      expect((await pending).error).toBeDefined();
+    });
+
+    it("should apply the mode when the upstream misses the deadline", async () => {
+      const fetchMock = vi.fn((_url: string, options?: RequestInit) => {
+        return new Promise<Response>((_, reject) => {
+          options?.signal?.addEventListener("abort", () => {
+            const error = new Error("Aborted");
+            error.name = "AbortError";
+            reject(error);
+          });
+        });
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const slow = buildServer(
+        { status: 200, timeout: { mode: "respond", afterMs: 10, status: 503, body: { message: "busy" } } },
+        "http://localhost:8080"
+      );
+      const response = await slow.server.inject({ method: "GET", url: "/orders" });
+      expect(response.statusCode).toBe(503);
+      expect(response.json()).toEqual({ message: "busy" });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      const reset = buildServer({ status: 200, timeout: { mode: "reset" } }, "http://localhost:8080");
+      const outcome = await request(await listen(reset.server));
+      expect(outcome.error?.code).toBe("ECONNRESET");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(reset.eventLogger.emitEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event: "timeout-action", mode: "reset", afterMs: 0, proxied: true })
+      );
+      await reset.server.close();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from "vitest";
+import { createServer } from "../../../src/server/server";
+import { ScenarioRegistry } from "../../../src/state/scenario-registry";
+import { ScenarioState } from "../../../src/state/scenario-state";
+import { createReloader } from "../../../src/watch/reloader";
+import type { ApiRoute } from "../../../src/openapi/types";
+import type { LoadedScenario } from "../../../src/scenarios/types";
+
+const route = (method: string, path: string): ApiRoute => ({
+  method,
+  path,
+  fastifyPath: path.replace(/{(.*?)}/g, ":$1"),
+  operation: { responses: {} },
+  responses: { "200": { description: "ok", content: { "application/json": { example: { path } } } } },
+});
+
+const scenario = (status: number): LoadedScenario => ({
+  scenario: "Outage",
+  sourcePath: "/scenarios/outage.yaml",
+  sourceDir: "/scenarios",
+  rules: [{ match: { path: "/contracts/*", method: "GET" }, respond: { status } }],
+});
+
+describe("watch", () => {
+  describe("reloader", () => {
+    it("should serve the reloaded set and keep the previous one when loading fails", async () => {
+      const registry = new ScenarioRegistry({ routes: [route("GET", "/contracts/{id}")], scenarios: [scenario(503)] });
+      const eventLogger = { emitEvent: vi.fn() };
+      const server = createServer({
+        routes: [],
+        scenarios: [],
+        registry,
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger,
+      });
+      const load = vi.fn();
+      const reloader = createReloader({ registry, load, eventLogger });
+      const request = { method: "GET" as const, url: "/contracts/1", headers: { "x-mockhub-scenario": "Outage" } };
+
+      expect((await server.inject(request)).statusCode).toBe(503);
+
+      load.mockResolvedValueOnce({ routes: [route("GET", "/contracts/{id}")], scenarios: [scenario(502)] });
+      await reloader.reload(["/scenarios/outage.yaml"]);
+      expect((await server.inject(request)).statusCode).toBe(502);
+
+      load.mockRejectedValueOnce(new Error("status must be a number"));
+      await reloader.reload(["/scenarios/outage.yaml"]);
+      expect((await server.inject(request)).statusCode).toBe(502);
+
+      expect(eventLogger.emitEvent).toHaveBeenCalledWith({
+        event: "reload",
+        result: "failed",
+        files: ["/scenarios/outage.yaml"],
+        message: "status must be a number",
+      });
+      await server.close();
+    });
+
+    it("should batch changes that arrive while a reload is running", async () => {
+      const registry = new ScenarioRegistry({ routes: [], scenarios: [] });
+      const load = vi.fn().mockResolvedValue({ routes: [], scenarios: [] });
+      const reloader = createReloader({
+        registry,
+        load,
+        isSpecFile: (file) => file === "/openapi.yaml",
+      });
+
+      const first = reloader.reload(["/scenarios/a.yaml"]);
+      reloader.reload(["/scenarios/b.yaml"]);
+      const last = reloader.reload(["/openapi.yaml", "/scenarios/b.yaml"]);
+
+      expect(await first).toMatchObject({ result: "applied", files: ["/scenarios/a.yaml"] });
+      expect(await last).toMatchObject({ result: "applied", files: ["/openapi.yaml", "/scenarios/b.yaml"] });
+      expect(load.mock.calls).toEqual([[false], [true]]);
+    });
+
+    it("should route through the replaced table and prefer static paths", async () => {
+      const registry = new ScenarioRegistry({ routes: [route("GET", "/contracts/{id}")], scenarios: [] });
+      const server = createServer({
+        routes: [],
+        scenarios: [],
+        registry,
+        scenarioState: new ScenarioState(),
+        port: 0,
+        eventLogger: { emitEvent: vi.fn() },
+      });
+
+      expect((await server.inject({ method: "GET", url: "/contracts/latest" })).json()).toEqual({
+        path: "/contracts/{id}",
+      });
+
+      registry.replace({ routes: [route("GET", "/contracts/{id}"), route("GET", "/contracts/latest")], scenarios: [] });
+
+      expect((await server.inject({ method: "GET", url: "/contracts/latest" })).json()).toEqual({
+        path: "/contracts/latest",
+      });
+      expect((await server.inject({ method: "GET", url: "/health" })).statusCode).toBe(404);
+      await server.close();
+    });
+  });
+});
@@ -16,6 +16,7 @@ export default defineConfig({
     'react',
     'ink',
     'ink-select-input',
+    'tsx',
   ],
   sourcemap: true,
   dts: true,